@@ -4,7 +4,7 @@ if (typeof global.Buffer === 'undefined') {
   global.Buffer = Buffer;
 }
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { StatusBar } from 'expo-status-bar';
 import {
   StyleSheet,
@@ -20,6 +20,8 @@ import {
   ScrollView,
   Dimensions,
   Modal,
+  Linking,
+  AppState,
 } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { LinearGradient } from 'expo-linear-gradient';
@@ -31,11 +33,39 @@ import ShopScreen from './components/ShopScreen';
 import SignInScreen from './components/SignInScreen';
 import MatchmakingButton from './components/MatchmakingButton';
 import FriendsScreen from './components/FriendsScreen';
+import PracticeSetsScreen from './components/PracticeSetsScreen';
+import TimesTablesScreen from './components/TimesTablesScreen';
 import LobbyScreen from './components/LobbyScreen';
-import { PlayerProfile } from './types/Player';
+import {
+  GameResult,
+  GameSnapshot,
+  LeaderboardEntry,
+  PlayerProfile,
+  PracticeSet,
+  QuestionRecord,
+  ReviewFact,
+  SkillMastery,
+  SurvivalRun,
+  TimesTableFact,
+  TimesTableOptions,
+  DEFAULT_TIMES_TABLE_OPTIONS,
+  DEFAULT_PLAYER_SETTINGS,
+} from './types/Player';
 import { PlayerStorageService } from './services/PlayerStorageService';
 import { FriendsService } from './services/FriendsService';
+import { LeaderboardService } from './services/LeaderboardService';
 import { GameRewards } from './utils/GameRewards';
+import { EquationGenerator } from './utils/EquationGenerator';
+import { SeededRandom } from './utils/SeededRandom';
+import { AdaptiveDifficulty, AnswerSample } from './utils/AdaptiveDifficulty';
+import { ReviewScheduler } from './utils/ReviewScheduler';
+import { AnswerChecker } from './utils/AnswerChecker';
+import { PracticeSetCodes } from './utils/PracticeSetCodes';
+import { TimesTables, TimesTableFactPosition, TimesTableSession } from './utils/TimesTables';
+import { HintGenerator } from './utils/HintGenerator';
+import { Survival } from './utils/Survival';
+import { GameResume } from './utils/GameResume';
+import { Difficulty, DifficultyMode, Equation, QuestionTrack, RandomSource } from './types/Equation';
 import { useBackground } from './hooks/useBackground';
 import SpaceBackground from './components/SpaceBackground';
 import ForestBackground from './components/ForestBackground';
@@ -48,6 +78,7 @@ import { localAuth, LocalUser } from './services/localAuth';
 import { authService, AuthUser } from './services/AuthService';
 import AuthenticationScreen from './components/AuthenticationScreen';
 import { IslandButton } from './components/IslandButton';
+import { NumericKeypad } from './components/NumericKeypad';
 import { IslandCard } from './components/IslandCard';
 import { IslandMenu } from './components/IslandMenu';
 import { MainMenuIslands } from './components/MainMenuIslands';
@@ -55,16 +86,38 @@ import { MainMenuIslands } from './components/MainMenuIslands';
 import BubblePopGameScreen from './components/BubblePopGameScreen';
 import BubblePlusGameScreen from './components/BubblePlusGameScreen';
 
-// Types
-interface Equation {
-  question: string;
-  answer: number;
-}
-
 // Use shared BackgroundWrapper component which normalizes text children
 
 const { width } = Dimensions.get('window');
 
+// Question families offered on the pickers; bubble and online modes need whole-number answers
+const TRACK_OPTIONS: { track: QuestionTrack; label: string }[] = [
+  { track: 'whole', label: '🔢 Whole' },
+  { track: 'integers', label: '± Integers' },
+  { track: 'fractions', label: '½ Fractions' },
+  { track: 'decimals', label: '0.5 Decimals' },
+  { track: 'expressions', label: '🧮 Multi-step' },
+  { track: 'algebra', label: '𝑥 Algebra' },
+  { track: 'word', label: '📖 Word Problems' },
+];
+const ALL_TRACKS = TRACK_OPTIONS.map(option => option.track);
+const INTEGER_ANSWER_TRACKS: QuestionTrack[] = ['whole', 'expressions', 'algebra'];
+// The online server only generates these
+const ONLINE_TRACKS: QuestionTrack[] = ['whole', 'expressions'];
+// Round lengths offered for classic and bubble games: a time limit, or a fixed number of questions
+const GAME_TIME_OPTIONS = [30, 60, 120, 300];
+const GAME_QUESTION_OPTIONS = [10, 20, 40];
+// Games that are snapshotted as they are played, so they can be resumed after the app is closed
+const RESUMABLE_MODES: GameSnapshot['mode'][] = ['classic', 'zen', 'survival'];
+
+// A delayed step after an answer; its timeout is null while the game is paused
+interface FeedbackStep {
+  run: () => void;
+  dueAt: number;
+  remaining: number; // Milliseconds left when it was paused
+  timeout: ReturnType<typeof setTimeout> | null;
+}
+
 function AppContent() {
   // State and hooks
   let insets;
@@ -96,13 +149,51 @@ function AppContent() {
   const [profileInitialTab, setProfileInitialTab] = useState<'overview' | 'stats' | 'achievements' | 'settings' | 'history'>('overview');
   const [showShop, setShowShop] = useState(false);
   const [showFriends, setShowFriends] = useState(false);
+  const [showPracticeSets, setShowPracticeSets] = useState(false);
+  const [showTimesTables, setShowTimesTables] = useState(false);
   const [incomingChallenge, setIncomingChallenge] = useState<{challengeId: string; from: {id: string; name: string}; difficulty: string} | null>(null);
   const [gameStartTime, setGameStartTime] = useState<Date>(new Date());
-  const [currentEquation, setCurrentEquation] = useState<Equation>({ question: '', answer: 0 });
-  const [gameTime, setGameTime] = useState(60);
+  const [currentEquation, setCurrentEquation] = useState<Equation>(() => EquationGenerator.generate('easy'));
+  // Seed for the current game so the question list can be replayed or reported
+  const [gameSeed, setGameSeed] = useState<number>(() => SeededRandom.createSeed());
+  const randomRef = useRef<RandomSource>(SeededRandom.create(gameSeed));
+  // Adaptive difficulty (classic only): the model is updated per answer and saved when the game ends
+  const [isAdaptive, setIsAdaptive] = useState(false);
+  const skillMasteryRef = useRef<{ [skillKey: string]: SkillMastery }>({});
+  const adaptiveLevelRef = useRef(AdaptiveDifficulty.STARTING_LEVEL);
+  const recentAnswersRef = useRef<AnswerSample[]>([]);
+  const questionStartRef = useRef(Date.now());
+  // Hints revealed for the current question, and across the whole game for the result
+  const [hintsShown, setHintsShown] = useState(0);
+  const [hintsUsed, setHintsUsed] = useState(0);
+  // Every answer in the current game, saved with the result
+  const questionRecordsRef = useRef<QuestionRecord[]>([]);
+  // Pausing stops the clock: time spent paused is left out of answer times and time played
+  const [isPaused, setIsPaused] = useState(false);
+  const pausedAtRef = useRef(0);
+  const pausedTimeRef = useRef(0);
+  // Pending steps after an answer (hiding its feedback, moving to the next question); pausing holds on to what is left of their delays
+  const feedbackStepsRef = useRef<FeedbackStep[]>([]);
+  // A saved game chosen from the launch prompt, restored once its mode and track are in place
+  const [resumingSnapshot, setResumingSnapshot] = useState<GameSnapshot | null>(null);
+  // Question family for classic games (whole numbers, fractions or decimals)
+  const [questionTrack, setQuestionTrack] = useState<QuestionTrack>('whole');
+  const getTrackForMode = (tracks: QuestionTrack[]) => (tracks.includes(questionTrack) ? questionTrack : 'whole');
+  const getPickerTrack = () => (usesClassicQuestions ? questionTrack : getTrackForMode(INTEGER_ANSWER_TRACKS));
+  // Review mode plays a fixed list of missed facts built when the session starts
+  const reviewSessionRef = useRef<Equation[]>([]);
+  // Practice mode plays a saved practice set for its question count (and time limit, if any)
+  const [activePracticeSet, setActivePracticeSet] = useState<PracticeSet | null>(null);
+  // Code from a practice-set deep link, opened once the main menu is showing
+  const [pendingPracticeSetCode, setPendingPracticeSetCode] = useState<string | null>(null);
+  // Round length from the player's settings; gameQuestions replaces the clock when set
+  const gameTime = playerProfile?.settings.gameTime ?? DEFAULT_PLAYER_SETTINGS.gameTime;
+  const gameQuestions = playerProfile?.settings.gameQuestions;
   const [timeLeft, setTimeLeft] = useState(gameTime);
   const [equationCount, setEquationCount] = useState(0);
-  type Difficulty = 'easy' | 'medium' | 'hard';
+  const [timePlayed, setTimePlayed] = useState(0);
+  // Bubble points from the last bubble game, shown on the results screen
+  const [bubblePoints, setBubblePoints] = useState(0);
   const [difficultyByMode, setDifficultyByMode] = useState<Record<string, Difficulty>>({
     classic: 'easy',
     times_tables: 'easy',
@@ -114,7 +205,9 @@ function AppContent() {
   const setDifficultyForMode = (mode: string, value: Difficulty) => setDifficultyByMode(prev => ({ ...prev, [mode]: value }));
   // Online PvP difficulty selection modal
   const [showOnlineDifficultySelect, setShowOnlineDifficultySelect] = useState(false);
-  const [gameMode, setGameMode] = useState<'classic' | 'times_tables' | 'multiplayer' | 'bubble_pop' | 'bubble_plus'>('classic');
+  const [gameMode, setGameMode] = useState<'classic' | 'times_tables' | 'survival' | 'zen' | 'review' | 'practice' | 'multiplayer' | 'bubble_pop' | 'bubble_plus'>('classic');
+  // Zen practice asks the same questions as classic, without the clock
+  const usesClassicQuestions = gameMode === 'classic' || gameMode === 'zen';
   const [fadeAnim] = useState(new Animated.Value(1));
   const [showNotepad, setShowNotepad] = useState(false);
   const [multiplayerResults, setMultiplayerResults] = useState<any>(null);
@@ -123,6 +216,26 @@ function AppContent() {
   const [currentMultiplier, setCurrentMultiplier] = useState(1);
   const [completedTables, setCompletedTables] = useState<number[]>([]);
   const [timesTablesProgress, setTimesTablesProgress] = useState<{[key: number]: number}>({});
+  // Per-fact results and best challenge times, saved with the progress after every answer
+  const timesTableFactsRef = useRef<{ [factKey: string]: TimesTableFact }>({});
+  const timesTableBestTimesRef = useRef<{ [table: number]: number }>({});
+  const timesTableOptionsRef = useRef<TimesTableOptions>(DEFAULT_TIMES_TABLE_OPTIONS);
+  // currentMultiplier counts steps through the table; this maps each step to the multiplier asked
+  const multiplierOrderRef = useRef<number[]>(TimesTables.getMultiplierOrder(false));
+  // Reviews and challenges play a queue of facts from the chosen tables instead of walking them in order
+  const [timesTableSession, setTimesTableSession] = useState<TimesTableSession>('tables');
+  const [timesTableSessionTables, setTimesTableSessionTables] = useState<number[]>([]);
+  const timesTableQueueRef = useRef<TimesTableFactPosition[]>([]);
+  const isTimesTableQueue = gameMode === 'times_tables' && timesTableSession !== 'tables';
+  // Challenge time is the sum of answer times, so feedback pauses don't count
+  const challengeTimeRef = useRef(0);
+  const [challengeResult, setChallengeResult] = useState<{ time: number; previousBest?: number } | null>(null);
+  // Survival: lives left and the current run of correct answers, which shortens each question's countdown
+  const [livesLeft, setLivesLeft] = useState(Survival.STARTING_LIVES);
+  const [survivalStreak, setSurvivalStreak] = useState(0);
+  const longestSurvivalStreakRef = useRef(0);
+  const [survivalResult, setSurvivalResult] = useState<{ run: SurvivalRun; previousBest?: SurvivalRun; isNewBest: boolean } | null>(null);
+  const [survivalLeaderboard, setSurvivalLeaderboard] = useState<LeaderboardEntry[]>([]);
   const [spaceCorrectFeedback, setSpaceCorrectFeedback] = useState(false);
   const [spaceIncorrectFeedback, setSpaceIncorrectFeedback] = useState(false);
   const [emailVerified, setEmailVerified] = useState(true); // Default to true to avoid showing banner unnecessarily
@@ -139,12 +252,35 @@ function AppContent() {
   const [textFeedbackCorrect, setTextFeedbackCorrect] = useState(false);
   const [textFeedbackMessage, setTextFeedbackMessage] = useState('');
 
-  // Stable callbacks for game components
-  const handleBubbleGameComplete = useCallback((finalScore: number, totalQuestions: number, accuracy: number) => {
-    setGamePlayer(prev => ({ ...prev, score: finalScore }));
+  // Bubble games report points (+10 per pop, -5 per miss), correct answers and their time played without pauses;
+  // the result uses the bubble reward formula
+  const handleBubbleGameComplete = async (points: number, totalQuestions: number, accuracy: number, correctAnswers: number, gameTimeSpent: number) => {
+    setGamePlayer(prev => ({ ...prev, score: correctAnswers }));
+    setBubblePoints(points);
     setEquationCount(totalQuestions);
+    setTimePlayed(gameTimeSpent);
     setGameState('finished');
-  }, []);
+
+    if (!playerProfile || (gameMode !== 'bubble_pop' && gameMode !== 'bubble_plus')) return;
+
+    try {
+      const gameResult = {
+        ...GameRewards.createBubbleGameResult(
+          gameMode,
+          points,
+          correctAnswers,
+          totalQuestions,
+          gameTimeSpent,
+          getDifficultyForMode(gameMode),
+          gameQuestions ? gameTimeSpent : gameTime
+        ),
+        variant: getTrackForMode(INTEGER_ANSWER_TRACKS),
+      };
+      await saveResultAndRefreshProfile(gameResult);
+    } catch (error) {
+      console.error('Error saving bubble game result:', error);
+    }
+  };
 
   const handleBubbleGameBack = useCallback(() => {
     setGameState('setup');
@@ -152,13 +288,6 @@ function AppContent() {
     setQuestionNumber(1);
   }, []);
 
-  // Keypad handlers
-  const handleNumberPress = (num: string) => {
-    setGamePlayer(prev => ({ ...prev, currentAnswer: prev.currentAnswer + num }));
-  };
-  const handleDelete = () => {
-    setGamePlayer(prev => ({ ...prev, currentAnswer: prev.currentAnswer.slice(0, -1) }));
-  };
   const dismissKeyboard = () => Keyboard.dismiss();
 
   // New unified auth initialization (supports offline guest mode)
@@ -274,6 +403,12 @@ function AppContent() {
           // Small delay to show completion
           await new Promise(resolve => setTimeout(resolve, 300));
           setGameState('setup');
+
+          // Offer to pick up a game the app was closed in the middle of
+          const snapshot = await PlayerStorageService.loadGameSnapshot();
+          if (snapshot && snapshot.playerId === profile.id) {
+            promptResumeGame(snapshot);
+          }
         }
       } catch (error) {
         console.error('Initialization error:', error);
@@ -348,6 +483,30 @@ function AppContent() {
     }
   }, [playerProfile?.id]);
 
+  // Practice-set deep links (mathgameapp://practice-set/<code>), whether they launched the app or arrived later
+  useEffect(() => {
+    const handleUrl = (url: string | null) => {
+      const code = url ? PracticeSetCodes.fromLink(url) : null;
+      if (code) {
+        setPendingPracticeSetCode(code);
+      }
+    };
+
+    Linking.getInitialURL().then(handleUrl).catch(error => {
+      console.log('[App] Could not read initial URL:', error);
+    });
+    const subscription = Linking.addEventListener('url', ({ url }) => handleUrl(url));
+    return () => subscription.remove();
+  }, []);
+
+  // Don't interrupt a game: wait for the main menu before opening a linked practice set
+  useEffect(() => {
+    if (pendingPracticeSetCode && playerProfile && gameState === 'setup') {
+      setPendingPracticeSetCode(null);
+      handleImportPracticeSetCode(pendingPracticeSetCode);
+    }
+  }, [pendingPracticeSetCode, playerProfile, gameState]);
+
   // Set up friend challenge listeners
   useEffect(() => {
     if (authenticatedUser && !authenticatedUser.isOffline) {
@@ -508,116 +667,494 @@ function AppContent() {
     }, 200);
   };
 
+  // Present a basic fact in the player's question style ("7 × 6 = ?" or "? × 6 = 42")
+  const styleQuestion = (equation: Equation): Equation =>
+    EquationGenerator.applyQuestionStyle(equation, playerProfile?.settings.questionStyle ?? 'result', randomRef.current);
+
   // Generate times tables equations
+  const createTimesTableEquation = (table: number, multiplier: number): Equation =>
+    styleQuestion(TimesTables.createEquation(table, multiplier, timesTableOptionsRef.current, randomRef.current));
   const generateTimesTableEquation = useCallback((): Equation => {
-    const table = currentTable;
-    const multiplier = currentMultiplier;
-    const answer = table * multiplier;
-    
-    return {
-      question: `${table} × ${multiplier} = ?`,
-      answer,
-    };
-  }, [currentTable, currentMultiplier]);
+    return createTimesTableEquation(currentTable, multiplierOrderRef.current[currentMultiplier - 1]);
+  }, [currentTable, currentMultiplier, playerProfile]);
 
   // Generate random math equations based on difficulty
-  const generateEquation = useCallback((): Equation => {
-    let num1: number, num2: number, operation: string, answer: number;
-    const modeDifficulty = getDifficultyForMode(gameMode);
-
-    switch (modeDifficulty) {
-      case 'easy':
-        num1 = Math.floor(Math.random() * 10) + 1;
-        num2 = Math.floor(Math.random() * 10) + 1;
-        if (Math.random() > 0.5) {
-          operation = '+';
-          answer = num1 + num2;
-        } else {
-          operation = '-';
-          if (num1 < num2) [num1, num2] = [num2, num1]; // Ensure positive result
-          answer = num1 - num2;
-        }
-        break;
-      case 'medium':
-        num1 = Math.floor(Math.random() * 50) + 1;
-        num2 = Math.floor(Math.random() * 50) + 1;
-        const ops = ['+', '-', '×'];
-        operation = ops[Math.floor(Math.random() * ops.length)];
-        if (operation === '+') answer = num1 + num2;
-        else if (operation === '-') {
-          if (num1 < num2) [num1, num2] = [num2, num1];
-          answer = num1 - num2;
-        } else {
-          num1 = Math.floor(Math.random() * 12) + 1;
-          num2 = Math.floor(Math.random() * 12) + 1;
-          answer = num1 * num2;
-        }
-        break;
-      case 'hard':
-        num1 = Math.floor(Math.random() * 100) + 1;
-        num2 = Math.floor(Math.random() * 100) + 1;
-        const hardOps = ['+', '-', '×', '÷'];
-        operation = hardOps[Math.floor(Math.random() * hardOps.length)];
-        if (operation === '+') answer = num1 + num2;
-        else if (operation === '-') {
-          if (num1 < num2) [num1, num2] = [num2, num1];
-          answer = num1 - num2;
-        } else if (operation === '×') {
-          num1 = Math.floor(Math.random() * 25) + 1;
-          num2 = Math.floor(Math.random() * 25) + 1;
-          answer = num1 * num2;
-        } else {
-          // Division - ensure clean division
-          answer = Math.floor(Math.random() * 20) + 1;
-          num2 = Math.floor(Math.random() * 12) + 1;
-          num1 = answer * num2;
-        }
-        break;
+  const generateEquation = useCallback((
+    difficulty: DifficultyMode = isAdaptive && gameMode === 'classic' ? 'adaptive' : getDifficultyForMode(gameMode)
+  ): Equation => {
+    if (gameMode === 'practice' && activePracticeSet) {
+      return EquationGenerator.generateFromPracticeSet(activePracticeSet, randomRef.current);
+    }
+    if (usesClassicQuestions && questionTrack !== 'whole') {
+      // Adaptive play only models whole-number skills; other tracks follow the adaptive level
+      const trackDifficulty = difficulty === 'adaptive' ? AdaptiveDifficulty.toDifficulty(adaptiveLevelRef.current) : difficulty;
+      return styleQuestion(EquationGenerator.generateForTrack(questionTrack, trackDifficulty, randomRef.current));
     }
+    if (difficulty === 'adaptive') {
+      return styleQuestion(AdaptiveDifficulty.generate(skillMasteryRef.current, adaptiveLevelRef.current, randomRef.current));
+    }
+    return styleQuestion(EquationGenerator.generate(difficulty, randomRef.current));
+  }, [difficultyByMode, gameMode, isAdaptive, questionTrack, activePracticeSet, playerProfile]);
 
-    return {
-      question: `${num1} ${operation} ${num2} = ?`,
-      answer,
-    };
-  }, [difficultyByMode, gameMode]);
+  // Start new game (pass the difficulty when it was picked in this same render)
+  const startGame = (difficulty?: DifficultyMode) => {
+    const seed = SeededRandom.createSeed();
+    setGameSeed(seed);
+    randomRef.current = SeededRandom.create(seed);
+    skillMasteryRef.current = playerProfile?.skillMastery ?? {};
+    adaptiveLevelRef.current = playerProfile?.adaptiveLevel ?? AdaptiveDifficulty.STARTING_LEVEL;
+    recentAnswersRef.current = [];
+    setHintsUsed(0);
+    questionRecordsRef.current = [];
+    pausedTimeRef.current = 0;
+    setIsPaused(false);
+    setGameState('playing');
+    setTimeLeft(gameTime);
+    setEquationCount(0);
+    setGameStartTime(new Date());
+    setGamePlayer(prev => ({ ...prev, score: 0, currentAnswer: '', isCorrect: null, timeSpent: 0 }));
+    setCurrentEquation(generateEquation(difficulty));
+  };
+
+  // Reset the shared game state for a times tables session
+  const beginTimesTables = (session: TimesTableSession, tables: number[], options: TimesTableOptions) => {
+    const seed = SeededRandom.createSeed();
+    setGameSeed(seed);
+    randomRef.current = SeededRandom.create(seed);
+    skillMasteryRef.current = playerProfile?.skillMastery ?? {};
+    recentAnswersRef.current = [];
+    setHintsUsed(0);
+    questionRecordsRef.current = [];
+    pausedTimeRef.current = 0;
+    setIsPaused(false);
+    timesTableFactsRef.current = playerProfile?.timesTablesProgress?.facts ?? {};
+    timesTableBestTimesRef.current = playerProfile?.timesTablesProgress?.bestTimes ?? {};
+    timesTableOptionsRef.current = options;
+    multiplierOrderRef.current = playerProfile?.timesTablesProgress?.multiplierOrder ?? TimesTables.getMultiplierOrder(false);
+    challengeTimeRef.current = 0;
+    setChallengeResult(null);
+    setCompletedTables(playerProfile?.timesTablesProgress?.completedTables ?? []);
+    setTimesTablesProgress(playerProfile?.timesTablesProgress?.progress ?? {});
+    setTimesTableSession(session);
+    setTimesTableSessionTables(tables);
+    setIsAdaptive(false);
+    setGameMode('times_tables');
+    setShowTimesTables(false);
+    setGameState('playing');
+    setEquationCount(0);
+    setGameStartTime(new Date());
+    setGamePlayer(prev => ({ ...prev, score: 0, currentAnswer: '', isCorrect: null, timeSpent: 0 }));
+  };
+
+  // Walk the tables: from the saved position, or from the start of the chosen table
+  const startTimesTables = (options: TimesTableOptions, table?: number) => {
+    const savedProgress = playerProfile?.timesTablesProgress;
+    const startTable = table ?? savedProgress?.currentTable ?? 1;
+    const startMultiplier = table === undefined ? savedProgress?.currentMultiplier ?? 1 : 1;
+
+    beginTimesTables('tables', [], options);
+    // Carry on in the saved order when resuming the same kind of walk
+    const savedOrder = savedProgress?.multiplierOrder;
+    const resumeOrder = table === undefined && savedOrder?.length === TimesTables.SIZE &&
+      (savedProgress?.options?.shuffle ?? false) === options.shuffle;
+    multiplierOrderRef.current = resumeOrder && savedOrder
+      ? savedOrder
+      : TimesTables.getMultiplierOrder(options.shuffle, randomRef.current);
+    setCurrentTable(startTable);
+    setCurrentMultiplier(startMultiplier);
+    setCurrentEquation(createTimesTableEquation(startTable, multiplierOrderRef.current[startMultiplier - 1]));
+  };
+
+  // Shuffled review of every fact in the selected tables
+  const startTimesTablesReview = (tables: number[], options: TimesTableOptions) => {
+    beginTimesTables('review', tables, options);
+    timesTableQueueRef.current = TimesTables.buildReview(tables, randomRef.current);
+    const first = timesTableQueueRef.current[0];
+    setCurrentEquation(createTimesTableEquation(first.table, first.multiplier));
+  };
 
-  // Start new game
-  const startGame = () => {
+  // Time challenge: every fact of one table in a shuffled order; misses come back at the end
+  const startTimesTableChallenge = (table: number, options: TimesTableOptions) => {
+    beginTimesTables('challenge', [table], options);
+    timesTableQueueRef.current = TimesTables.buildReview([table], randomRef.current);
+    const first = timesTableQueueRef.current[0];
+    setCurrentEquation(createTimesTableEquation(first.table, first.multiplier));
+  };
+
+  // Survival questions start easy and step up every few correct answers
+  const generateSurvivalEquation = (correctAnswers: number): Equation =>
+    styleQuestion(EquationGenerator.generate(Survival.getDifficulty(correctAnswers), randomRef.current));
+
+  // Survival: play until all lives are lost, with a countdown on every question
+  const startSurvival = () => {
+    const seed = SeededRandom.createSeed();
+    setGameSeed(seed);
+    randomRef.current = SeededRandom.create(seed);
+    skillMasteryRef.current = playerProfile?.skillMastery ?? {};
+    recentAnswersRef.current = [];
+    setHintsUsed(0);
+    questionRecordsRef.current = [];
+    pausedTimeRef.current = 0;
+    setIsPaused(false);
+    setLivesLeft(Survival.STARTING_LIVES);
+    setSurvivalStreak(0);
+    longestSurvivalStreakRef.current = 0;
+    setSurvivalResult(null);
+    setSurvivalLeaderboard([]);
+    setIsAdaptive(false);
+    setGameMode('survival');
+    setGameState('playing');
+    setTimeLeft(Survival.getQuestionTime(0));
+    setEquationCount(0);
+    setGameStartTime(new Date());
+    setGamePlayer(prev => ({ ...prev, score: 0, currentAnswer: '', isCorrect: null, timeSpent: 0 }));
+    setCurrentEquation(generateSurvivalEquation(0));
+  };
+
+  // Start the chosen mode from the difficulty picker
+  const handleDifficultySelected = (difficulty: DifficultyMode) => {
+    setIsAdaptive(difficulty === 'adaptive');
+    if (difficulty !== 'adaptive') {
+      setDifficultyForMode(gameMode, difficulty);
+    }
+    if (usesClassicQuestions) {
+      startGame(difficulty);
+    } else {
+      setGameSeed(SeededRandom.createSeed());
+      setHintsUsed(0);
+      questionRecordsRef.current = [];
+      pausedTimeRef.current = 0;
+      setIsPaused(false);
+      setGameStartTime(new Date());
+      setGameState('playing');
+    }
+  };
+
+  // Start a review session of missed facts, due ones first
+  const startReview = () => {
+    const session = ReviewScheduler.buildSession(playerProfile?.reviewFacts ?? {});
+    if (session.length === 0) {
+      Alert.alert('Nothing to Review', 'Facts you miss in Classic and Times Tables will show up here for review.');
+      return;
+    }
+
+    reviewSessionRef.current = session;
+    skillMasteryRef.current = playerProfile?.skillMastery ?? {};
+    recentAnswersRef.current = [];
+    setHintsUsed(0);
+    questionRecordsRef.current = [];
+    pausedTimeRef.current = 0;
+    setIsPaused(false);
+    setIsAdaptive(false);
+    setGameMode('review');
     setGameState('playing');
     setTimeLeft(gameTime);
     setEquationCount(0);
     setGameStartTime(new Date());
     setGamePlayer(prev => ({ ...prev, score: 0, currentAnswer: '', isCorrect: null, timeSpent: 0 }));
-    
-    // Handle times tables progress
-    if (gameMode === 'times_tables') {
-      // Load saved progress or start fresh
-      const savedProgress = playerProfile?.timesTablesProgress;
-      if (savedProgress) {
-        setCurrentTable(savedProgress.currentTable);
-        setCurrentMultiplier(savedProgress.currentMultiplier);
-        setCompletedTables(savedProgress.completedTables);
-        setTimesTablesProgress(savedProgress.progress);
-        
-        // Generate equation with saved progress
-        setCurrentEquation({
-          question: `${savedProgress.currentTable} × ${savedProgress.currentMultiplier} = ?`,
-          answer: savedProgress.currentTable * savedProgress.currentMultiplier,
-        });
-      } else {
-        setCurrentEquation(generateTimesTableEquation());
+    setCurrentEquation(session[0]);
+  };
+
+  // Start a saved practice set from the practice-set screen
+  const startPracticeSet = (practiceSet: PracticeSet) => {
+    const seed = SeededRandom.createSeed();
+    setGameSeed(seed);
+    randomRef.current = SeededRandom.create(seed);
+    skillMasteryRef.current = playerProfile?.skillMastery ?? {};
+    recentAnswersRef.current = [];
+    setHintsUsed(0);
+    questionRecordsRef.current = [];
+    pausedTimeRef.current = 0;
+    setIsPaused(false);
+    setActivePracticeSet(practiceSet);
+    setIsAdaptive(false);
+    setGameMode('practice');
+    setShowPracticeSets(false);
+    setGameState('playing');
+    setTimeLeft(practiceSet.timeLimit);
+    setEquationCount(0);
+    setGameStartTime(new Date());
+    setGamePlayer(prev => ({ ...prev, score: 0, currentAnswer: '', isCorrect: null, timeSpent: 0 }));
+    setCurrentEquation(EquationGenerator.generateFromPracticeSet(practiceSet, randomRef.current));
+  };
+
+  const handleSavePracticeSet = async (practiceSet: PracticeSet) => {
+    const practiceSets = await PlayerStorageService.savePracticeSet(practiceSet);
+    setPlayerProfile(prev => (prev ? { ...prev, practiceSets } : prev));
+  };
+
+  const handleDeletePracticeSet = async (practiceSetId: string) => {
+    try {
+      const practiceSets = await PlayerStorageService.deletePracticeSet(practiceSetId);
+      setPlayerProfile(prev => (prev ? { ...prev, practiceSets } : prev));
+    } catch (error) {
+      console.error('Error deleting practice set:', error);
+    }
+  };
+
+  // Open a shared practice-set code: play it straight away or save it to the profile
+  const handleImportPracticeSetCode = (code: string) => {
+    let practiceSet: PracticeSet;
+    try {
+      practiceSet = PracticeSetCodes.decode(code);
+    } catch (error) {
+      Alert.alert('Invalid Code', error instanceof Error ? error.message : 'That practice-set code is not valid.');
+      return;
+    }
+
+    Alert.alert(
+      `📝 ${practiceSet.name}`,
+      `${practiceSet.operations.join(' ')} with ${practiceSet.operands.join(', ')}\n${practiceSet.questionCount} questions${practiceSet.timeLimit > 0 ? `, ${practiceSet.timeLimit}s limit` : ''}`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Save',
+          onPress: () => {
+            handleSavePracticeSet(practiceSet).catch(error => {
+              console.error('Error saving practice set:', error);
+            });
+          },
+        },
+        { text: 'Play', onPress: () => startPracticeSet(practiceSet) },
+      ]
+    );
+  };
+
+  // Save review facts straight away so misses survive a quit game
+  const updateReviewFacts = (reviewFacts: { [factKey: string]: ReviewFact }) => {
+    setPlayerProfile(prev => (prev ? { ...prev, reviewFacts } : prev));
+    PlayerStorageService.updateReviewFacts(reviewFacts).catch(error => {
+      console.error('Error saving review facts:', error);
+    });
+  };
+
+  // Time each question from when it is shown, with its hints hidden again
+  useEffect(() => {
+    questionStartRef.current = Date.now();
+    setHintsShown(0);
+  }, [currentEquation]);
+
+  const scheduleFeedbackStep = (run: () => void, delay: number) => {
+    const step: FeedbackStep = { run, dueAt: Date.now() + delay, remaining: delay, timeout: null };
+    step.timeout = setTimeout(() => {
+      feedbackStepsRef.current = feedbackStepsRef.current.filter(other => other !== step);
+      run();
+    }, delay);
+    feedbackStepsRef.current = [...feedbackStepsRef.current, step];
+  };
+
+  const cancelFeedbackSteps = () => {
+    feedbackStepsRef.current.forEach(step => {
+      if (step.timeout) clearTimeout(step.timeout);
+    });
+    feedbackStepsRef.current = [];
+    setShowTextFeedback(false);
+  };
+
+  const pauseGame = () => {
+    pausedAtRef.current = Date.now();
+    feedbackStepsRef.current.forEach(step => {
+      if (!step.timeout) return;
+      clearTimeout(step.timeout);
+      step.timeout = null;
+      step.remaining = Math.max(0, step.dueAt - Date.now());
+    });
+    setIsPaused(true);
+  };
+
+  const resumeGame = () => {
+    const pausedFor = Date.now() - pausedAtRef.current;
+    pausedTimeRef.current += pausedFor;
+    questionStartRef.current += pausedFor;
+    const heldSteps = feedbackStepsRef.current.filter(step => !step.timeout);
+    feedbackStepsRef.current = feedbackStepsRef.current.filter(step => step.timeout);
+    heldSteps.forEach(step => scheduleFeedbackStep(step.run, step.remaining));
+    setIsPaused(false);
+  };
+
+  // Backgrounding the app pauses a single-player game so its clocks stop with it (bubble screens handle their own)
+  useEffect(() => {
+    if (gameState !== 'playing' || gameMode === 'multiplayer' || gameMode === 'bubble_pop' || gameMode === 'bubble_plus' || isPaused) return;
+    const subscription = AppState.addEventListener('change', nextState => {
+      if (nextState !== 'active') {
+        pauseGame();
       }
+    });
+    return () => subscription.remove();
+  }, [gameState, gameMode, isPaused]);
+
+  // Seconds played so far, leaving out time spent paused
+  const getPlayedSeconds = () => {
+    const pausedFor = pausedTimeRef.current + (isPaused ? Date.now() - pausedAtRef.current : 0);
+    return Math.round((Date.now() - gameStartTime.getTime() - pausedFor) / 1000);
+  };
+
+  // Snapshot resumable games after every question and whenever they pause (including going to the background)
+  useEffect(() => {
+    if (gameState !== 'playing' || !playerProfile || !RESUMABLE_MODES.includes(gameMode as GameSnapshot['mode'])) return;
+    PlayerStorageService.saveGameSnapshot({
+      playerId: playerProfile.id,
+      mode: gameMode as GameSnapshot['mode'],
+      seed: gameSeed,
+      difficulty: isAdaptive && gameMode === 'classic' ? 'adaptive' : getDifficultyForMode(gameMode),
+      track: questionTrack,
+      questionIndex: questionRecordsRef.current.length, // Already counts an answer whose feedback is still showing
+      score: gamePlayer.score,
+      elapsed: getPlayedSeconds(),
+      questions: questionRecordsRef.current,
+      skillMastery: skillMasteryRef.current,
+      adaptiveLevel: adaptiveLevelRef.current,
+      savedAt: new Date().toISOString(),
+    });
+  }, [gameState, equationCount, isPaused]);
+
+  // Ask whether to pick up a game the app was closed in the middle of
+  const promptResumeGame = (snapshot: GameSnapshot) => {
+    const modeName = snapshot.mode === 'zen' ? 'Zen' : snapshot.mode === 'survival' ? 'Survival' : 'Classic';
+    Alert.alert(
+      'Resume your game?',
+      `Your ${modeName} game was interrupted after ${snapshot.questionIndex} questions with a score of ${snapshot.score}.`,
+      [
+        { text: 'Discard', style: 'destructive', onPress: () => PlayerStorageService.clearGameSnapshot() },
+        { text: 'Resume', onPress: () => resumeSavedGame(snapshot) },
+      ]
+    );
+  };
+
+  // Switch to the saved game's mode, difficulty and track; the effect below restores the game itself
+  const resumeSavedGame = (snapshot: GameSnapshot) => {
+    setGameMode(snapshot.mode);
+    setQuestionTrack(snapshot.track);
+    setIsAdaptive(snapshot.difficulty === 'adaptive');
+    if (snapshot.difficulty !== 'adaptive') {
+      setDifficultyForMode(snapshot.mode, snapshot.difficulty);
+    }
+    setResumingSnapshot(snapshot);
+  };
+
+  // Restore a saved game: replay its seeded question sequence up to where it was left, then carry on
+  useEffect(() => {
+    if (!resumingSnapshot) return;
+    const snapshot = resumingSnapshot;
+    setResumingSnapshot(null);
+
+    setGameSeed(snapshot.seed);
+    randomRef.current = SeededRandom.create(snapshot.seed);
+    // Carry on from the mastery and adaptive level the answers so far had reached, not what the game started with
+    skillMasteryRef.current = snapshot.skillMastery ?? playerProfile?.skillMastery ?? {};
+    adaptiveLevelRef.current = snapshot.adaptiveLevel ?? playerProfile?.adaptiveLevel ?? AdaptiveDifficulty.STARTING_LEVEL;
+    recentAnswersRef.current = snapshot.questions.map(record => ({ correct: record.correct, time: record.time }));
+    const progress = GameResume.getProgress(snapshot);
+    setHintsUsed(progress.hintsUsed);
+    questionRecordsRef.current = snapshot.questions;
+    pausedTimeRef.current = 0;
+    setIsPaused(false);
+
+    if (snapshot.mode === 'survival') {
+      // Survival questions get harder with each correct answer, so replay them at the level each was asked at
+      let correct = 0;
+      snapshot.questions.forEach(record => {
+        generateSurvivalEquation(correct);
+        correct += record.correct ? 1 : 0;
+      });
+      setLivesLeft(progress.livesLeft);
+      setSurvivalStreak(progress.streak);
+      longestSurvivalStreakRef.current = progress.longestStreak;
+      setSurvivalResult(null);
+      setSurvivalLeaderboard([]);
+      setTimeLeft(Survival.getQuestionTime(progress.streak));
+      setCurrentEquation(generateSurvivalEquation(correct));
     } else {
-      setCurrentEquation(generateEquation());
+      for (let i = 0; i < progress.questionIndex; i++) {
+        generateEquation(snapshot.difficulty);
+      }
+      setTimeLeft(Math.max(1, gameTime - snapshot.elapsed));
+      setCurrentEquation(generateEquation(snapshot.difficulty));
     }
+
+    setEquationCount(progress.questionIndex);
+    setGameStartTime(new Date(Date.now() - snapshot.elapsed * 1000));
+    setGamePlayer(prev => ({ ...prev, score: progress.score, currentAnswer: '', isCorrect: null, timeSpent: 0 }));
+    setGameState('playing');
+  }, [resumingSnapshot]);
+
+  const revealHint = () => {
+    setHintsShown(prev => prev + 1);
+    setHintsUsed(prev => prev + 1);
   };
+  const currentHints = playerProfile?.settings.showHints ? HintGenerator.getHints(currentEquation) : [];
+
+  // Tracks beyond whole numbers get a sign toggle, plus a point or fraction bar where needed
+  const answerFormat = currentEquation.answerFormat;
+  const keypadExtraKeys = answerFormat
+    ? ['±', ...(answerFormat === 'decimal' ? ['.'] : []), ...(answerFormat === 'fraction' ? ['/'] : [])]
+    : [];
+  // Equivalent fractions ("2/4" for "1/2") differ in length, so those wait for Enter
+  const expectedAnswerLength = answerFormat === 'fraction' ? undefined : AnswerChecker.formatAnswer(currentEquation).length;
 
-  // Handle answer submission
-  const submitAnswer = (answer: string) => {
-    if (!answer.trim()) return;
+  // Handle answer submission (a Survival question that runs out of time is submitted as a miss)
+  const submitAnswer = (answer: string, timedOut = false) => {
+    if (!answer.trim() && !timedOut) return;
     
-    const numAnswer = parseInt(answer);
-    const isCorrect = numAnswer === currentEquation.answer;
+    // Graded by value, so "6/8" matches 3/4 and "0.50" matches 0.5
+    const isCorrect = !timedOut && AnswerChecker.isCorrect(currentEquation, answer);
+    const answerTime = (Date.now() - questionStartRef.current) / 1000;
+
+    questionRecordsRef.current = [...questionRecordsRef.current, {
+      question: currentEquation.question,
+      operation: currentEquation.operation,
+      num1: currentEquation.num1,
+      num2: currentEquation.num2,
+      givenAnswer: answer,
+      correctAnswer: AnswerChecker.formatAnswer(currentEquation),
+      correct: isCorrect,
+      time: answerTime,
+      hintsUsed: hintsShown,
+    }];
+
+    // Feed the mastery model; in adaptive games this also steers the next question
+    recentAnswersRef.current = [...recentAnswersRef.current, { correct: isCorrect, time: answerTime }];
+    if (isAdaptive && gameMode === 'classic') {
+      adaptiveLevelRef.current = AdaptiveDifficulty.updateLevel(adaptiveLevelRef.current, recentAnswersRef.current);
+    }
+
+    // Times tables also keep results per fact for the mastery grid
+    if (gameMode === 'times_tables') {
+      const fact = isTimesTableQueue
+        ? timesTableQueueRef.current[equationCount]
+        : { table: currentTable, multiplier: multiplierOrderRef.current[currentMultiplier - 1] };
+      timesTableFactsRef.current = TimesTables.recordAnswer(timesTableFactsRef.current, fact.table, fact.multiplier, isCorrect, answerTime);
+
+      if (timesTableSession === 'challenge') {
+        challengeTimeRef.current += answerTime;
+        if (!isCorrect) {
+          timesTableQueueRef.current = [...timesTableQueueRef.current, fact];
+        }
+      }
+    }
+
+    // Survival: a miss costs a life, and the streak sets the next question's countdown
+    const nextStreak = isCorrect ? survivalStreak + 1 : 0;
+    if (gameMode === 'survival') {
+      setSurvivalStreak(nextStreak);
+      longestSurvivalStreakRef.current = Math.max(longestSurvivalStreakRef.current, nextStreak);
+      if (!isCorrect) {
+        setLivesLeft(prev => prev - 1);
+      }
+    }
+
+    // Mastery and review only track single whole-number facts
+    if (AnswerChecker.isBasicFact(currentEquation)) {
+      skillMasteryRef.current = AdaptiveDifficulty.recordAnswer(skillMasteryRef.current, currentEquation, isCorrect, answerTime);
+
+      // Misses are scheduled for review; answers in review mode move facts between Leitner boxes
+      const reviewFacts = playerProfile?.reviewFacts ?? {};
+      if (gameMode === 'review') {
+        updateReviewFacts(ReviewScheduler.recordReview(reviewFacts, currentEquation, isCorrect));
+      } else if (!isCorrect) {
+        updateReviewFacts(ReviewScheduler.recordMiss(reviewFacts, currentEquation));
+      }
+    }
     
     setGamePlayer(prev => ({
       ...prev,
@@ -628,7 +1165,9 @@ function AppContent() {
 
     // Show text feedback
     setTextFeedbackCorrect(isCorrect);
-    setTextFeedbackMessage(isCorrect ? 'Correct!' : `Wrong! Answer was ${currentEquation.answer}`);
+    setTextFeedbackMessage(isCorrect
+      ? 'Correct!'
+      : `${timedOut ? "Time's up!" : 'Wrong!'} Answer was ${AnswerChecker.formatAnswer(currentEquation)}`);
     setShowTextFeedback(true);
 
     // Trigger space background feedback if space theme is active (skip if reduceMotion)
@@ -652,13 +1191,26 @@ function AppContent() {
     }
 
     // Hide text feedback after delay (keep visible longer if reduceMotion)
-    setTimeout(() => {
+    scheduleFeedbackStep(() => {
       setShowTextFeedback(false);
     }, reduceMotion ? 3000 : 1500);
 
     // Generate new equation after short delay
-    setTimeout(() => {
-      if (gameMode === 'times_tables') {
+    scheduleFeedbackStep(() => {
+      if (isTimesTableQueue) {
+        // The session-end effect finishes the review after the last fact; the saved position is unchanged
+        const nextFact = timesTableQueueRef.current[equationCount + 1];
+        if (nextFact) {
+          setCurrentEquation(createTimesTableEquation(nextFact.table, nextFact.multiplier));
+        }
+        const savedProgress = playerProfile?.timesTablesProgress;
+        saveTimesTablesProgress(
+          savedProgress?.currentTable ?? 1,
+          savedProgress?.currentMultiplier ?? 1,
+          completedTables,
+          timesTablesProgress
+        );
+      } else if (gameMode === 'times_tables') {
         // Handle times tables progression
         if (isCorrect) {
           // Calculate next values
@@ -671,12 +1223,13 @@ function AppContent() {
             setCurrentMultiplier(nextMultiplier);
           } else {
             // Completed this table, move to next table
-            setCompletedTables(prev => [...prev, currentTable]);
+            setCompletedTables(prev => (prev.includes(currentTable) ? prev : [...prev, currentTable]));
             setTimesTablesProgress(prev => ({ ...prev, [currentTable]: 15 }));
             
             if (currentTable < 15) {
               nextTable = currentTable + 1;
               nextMultiplier = 1;
+              multiplierOrderRef.current = TimesTables.getMultiplierOrder(timesTableOptionsRef.current.shuffle, randomRef.current);
               setCurrentTable(nextTable);
               setCurrentMultiplier(nextMultiplier);
             } else {
@@ -687,39 +1240,56 @@ function AppContent() {
           }
           
           // Generate equation with the new values
-          setCurrentEquation({
-            question: `${nextTable} × ${nextMultiplier} = ?`,
-            answer: nextTable * nextMultiplier,
-          });
+          setCurrentEquation(createTimesTableEquation(nextTable, multiplierOrderRef.current[nextMultiplier - 1]));
           
           // Save progress to player profile
-          const updatedCompletedTables = currentMultiplier === 15 ? [...completedTables, currentTable] : completedTables;
-          const updatedProgress = currentMultiplier === 15 ? { ...timesTablesProgress, [currentTable]: 15 } : timesTablesProgress;
+          const updatedCompletedTables = currentMultiplier === 15 && !completedTables.includes(currentTable)
+            ? [...completedTables, currentTable]
+            : completedTables;
+          const updatedProgress = {
+            ...timesTablesProgress,
+            [currentTable]: Math.max(timesTablesProgress[currentTable] ?? 0, currentMultiplier),
+          };
+          setTimesTablesProgress(updatedProgress);
           saveTimesTablesProgress(nextTable, nextMultiplier, updatedCompletedTables, updatedProgress);
         } else {
           // Wrong answer, stay on same equation
           setCurrentEquation(generateTimesTableEquation());
+          saveTimesTablesProgress(currentTable, currentMultiplier, completedTables, timesTablesProgress);
+        }
+      } else if (gameMode === 'survival') {
+        // The survival effect finishes the run once the last life is gone
+        setCurrentEquation(generateSurvivalEquation(gamePlayer.score + (isCorrect ? 1 : 0)));
+        setTimeLeft(Survival.getQuestionTime(nextStreak));
+      } else if (gameMode === 'review') {
+        // The session-end effect finishes the game after the last fact
+        const nextFact = reviewSessionRef.current[equationCount + 1];
+        if (nextFact) {
+          setCurrentEquation(nextFact);
         }
       } else {
         setCurrentEquation(generateEquation());
       }
       
-      // Only increment equation count for classic mode, or when we actually progress in times tables
-      if (gameMode === 'classic' || (gameMode === 'times_tables' && isCorrect)) {
+      // Only increment equation count for classic, review, practice and times tables review, or when we actually progress in times tables
+      if (gameMode === 'classic' || gameMode === 'survival' || gameMode === 'zen' || gameMode === 'review' || gameMode === 'practice' || isTimesTableQueue || (gameMode === 'times_tables' && isCorrect)) {
         setEquationCount(prev => prev + 1);
       }
       setGamePlayer(prev => ({ ...prev, currentAnswer: '', isCorrect: null }));
     }, 1500);
   };
 
-  // Game timer (only for classic mode)
+  // Timed classic rounds, and practice sets with a time limit, count down
+  const isTimedMode = (gameMode === 'classic' && !gameQuestions) || (gameMode === 'practice' && !!activePracticeSet?.timeLimit);
+
+  // Game timer (only for timed modes)
   useEffect(() => {
     let interval: ReturnType<typeof setInterval> | undefined;
-    if (gameState === 'playing' && timeLeft > 0 && gameMode === 'classic') {
+    if (gameState === 'playing' && timeLeft > 0 && isTimedMode && !isPaused) {
       interval = setInterval(() => {
         setTimeLeft(prev => prev - 1);
       }, 1000);
-    } else if (timeLeft === 0 && gameState === 'playing' && gameMode === 'classic') {
+    } else if (timeLeft === 0 && gameState === 'playing' && isTimedMode) {
       finishGame();
     }
     return () => {
@@ -727,59 +1297,175 @@ function AppContent() {
         clearInterval(interval);
       }
     };
-  }, [gameState, timeLeft, gameMode]);
+  }, [gameState, timeLeft, isTimedMode, isPaused]);
 
-  const finishGame = async () => {
-    setGameState('finished');
+  // Survival question countdown, paused while feedback is showing; running out counts as a miss
+  useEffect(() => {
+    if (gameState !== 'playing' || gameMode !== 'survival' || gamePlayer.isCorrect !== null || isPaused) return;
+    if (livesLeft === 0) {
+      finishGame();
+      return;
+    }
+    if (timeLeft <= 0) {
+      submitAnswer(gamePlayer.currentAnswer, true);
+      return;
+    }
+    const timeout = setTimeout(() => setTimeLeft(prev => prev - 1), 1000);
+    return () => clearTimeout(timeout);
+  }, [gameState, gameMode, timeLeft, livesLeft, gamePlayer.isCorrect, isPaused]);
+
+  // Fixed-question classic rounds, review sessions, practice sets and times tables reviews end once their last question has been answered
+  const sessionLength = gameMode === 'classic'
+    ? gameQuestions ?? 0
+    : gameMode === 'review'
+      ? reviewSessionRef.current.length
+      : gameMode === 'practice'
+        ? activePracticeSet?.questionCount ?? 0
+        : isTimesTableQueue
+          ? timesTableQueueRef.current.length
+          : 0;
+  useEffect(() => {
+    if (gameState === 'playing' && sessionLength > 0 && equationCount >= sessionLength) {
+      finishGame();
+    }
+  }, [gameState, sessionLength, equationCount]);
+
+  // Save a finished game's result, then update the daily streak and refresh the profile
+  const saveResultAndRefreshProfile = async (gameResult: GameResult) => {
+    await PlayerStorageService.saveGameResult(gameResult);
     
-    if (!playerProfile) return;
+    // Show achievement notifications if any
+    // This could be enhanced with a modal or toast notification
     
-    try {
-      const gameTimeSpent = gameTime - timeLeft;
-      const gameResult = GameRewards.createGameResult(
-        gamePlayer.score,
-        equationCount,
-        gameTimeSpent,
-        getDifficultyForMode(gameMode)
-      );
-      
-      await PlayerStorageService.saveGameResult(gameResult);
+    // Check for streak update FIRST before reloading profile
+    const previousStreak = playerProfile?.currentStreak || 0;
+    const streakResult = await PlayerStorageService.updateDailyStreak();
+    
+    // Reload player profile to get updated stats (including updated streak)
+    const updatedProfile = await PlayerStorageService.loadPlayerProfile();
+    if (updatedProfile) {
+      setPlayerProfile(updatedProfile);
       
-      // Show achievement notifications if any
-      // This could be enhanced with a modal or toast notification
+      // Check for newly unlocked backgrounds
+      const { ShopService } = await import('./services/ShopService');
+      const newlyUnlocked = await ShopService.checkAndUnlockBackgrounds();
       
-      // Check for streak update FIRST before reloading profile
-      const previousStreak = playerProfile?.currentStreak || 0;
-      const streakResult = await PlayerStorageService.updateDailyStreak();
+      // Show streak modal if this was their first check-in today
+      if (streakResult && streakResult.checkedInToday) {
+        // Only show modal if streak actually increased or if it's their first streak
+        if (updatedProfile.currentStreak > previousStreak || updatedProfile.currentStreak === 1) {
+          setStreakValue(updatedProfile.currentStreak);
+          setTimeout(() => setShowStreakModal(true), 1500); // Show after results screen
+        }
+      }
       
-      // Reload player profile to get updated stats (including updated streak)
-      const updatedProfile = await PlayerStorageService.loadPlayerProfile();
-      if (updatedProfile) {
-        setPlayerProfile(updatedProfile);
-        
-        // Check for newly unlocked backgrounds
-        const { ShopService } = await import('./services/ShopService');
-        const newlyUnlocked = await ShopService.checkAndUnlockBackgrounds();
-        
-        // Show streak modal if this was their first check-in today
-        if (streakResult && streakResult.checkedInToday) {
-          // Only show modal if streak actually increased or if it's their first streak
-          if (updatedProfile.currentStreak > previousStreak || updatedProfile.currentStreak === 1) {
-            setStreakValue(updatedProfile.currentStreak);
-            setTimeout(() => setShowStreakModal(true), 1500); // Show after results screen
-          }
+      // Show unlock notification if any
+      if (newlyUnlocked.length > 0) {
+        setTimeout(() => {
+          Alert.alert(
+            '🎉 New Backgrounds Unlocked!',
+            `You unlocked ${newlyUnlocked.length} new background${newlyUnlocked.length > 1 ? 's' : ''}:\n${newlyUnlocked.map(bg => bg.name).join('\n')}`
+          );
+        }, 2000);
+      }
+    }
+  };
+
+  const finishGame = async () => {
+    // Only timed classic rounds use the game countdown; other games take their time played from the wall clock
+    const gameTimeSpent = gameMode === 'classic' && !gameQuestions ? gameTime - timeLeft : getPlayedSeconds();
+    setTimePlayed(gameTimeSpent);
+    setGameState('finished');
+    cancelFeedbackSteps();
+    await PlayerStorageService.clearGameSnapshot();
+
+    // Zen sessions are practice only: mastery and practice time are kept, but there is no scored result
+    if (gameMode === 'zen') {
+      if (!playerProfile) return;
+      try {
+        await PlayerStorageService.updateSkillMastery(skillMasteryRef.current);
+        await PlayerStorageService.addZenPracticeTime(gameTimeSpent);
+        const updatedProfile = await PlayerStorageService.loadPlayerProfile();
+        if (updatedProfile) {
+          setPlayerProfile(updatedProfile);
         }
-        
-        // Show unlock notification if any
-        if (newlyUnlocked.length > 0) {
-          setTimeout(() => {
-            Alert.alert(
-              '🎉 New Backgrounds Unlocked!',
-              `You unlocked ${newlyUnlocked.length} new background${newlyUnlocked.length > 1 ? 's' : ''}:\n${newlyUnlocked.map(bg => bg.name).join('\n')}`
-            );
-          }, 2000);
+      } catch (error) {
+        console.error('Error saving zen practice:', error);
+      }
+      return;
+    }
+    
+    // Multiplayer games save their own results
+    if (!playerProfile || gameMode === 'multiplayer') return;
+    
+    try {
+      // A finished time challenge may set a new best time for its table
+      if (gameMode === 'times_tables' && timesTableSession === 'challenge') {
+        const table = timesTableSessionTables[0];
+        const time = Math.round(challengeTimeRef.current * 10) / 10;
+        const previousBest = timesTableBestTimesRef.current[table];
+        setChallengeResult({ time, previousBest });
+        if (previousBest === undefined || time < previousBest) {
+          timesTableBestTimesRef.current = { ...timesTableBestTimesRef.current, [table]: time };
+          const savedProgress = playerProfile.timesTablesProgress;
+          await saveTimesTablesProgress(
+            savedProgress?.currentTable ?? 1,
+            savedProgress?.currentMultiplier ?? 1,
+            completedTables,
+            timesTablesProgress
+          );
         }
       }
+
+      // A Survival run may be a new best, and goes on the Survival leaderboard
+      if (gameMode === 'survival') {
+        const run: SurvivalRun = {
+          score: gamePlayer.score,
+          longestStreak: longestSurvivalStreakRef.current,
+          difficulty: Survival.getDifficulty(gamePlayer.score),
+          playedAt: new Date().toISOString(),
+        };
+        const previousBest = playerProfile.survivalBest;
+        const isNewBest = await PlayerStorageService.saveSurvivalRun(run);
+        setSurvivalResult({ run, previousBest, isNewBest });
+        LeaderboardService.submitScore('survival', run.score, equationCount, gameTimeSpent)
+          .then(entries => setSurvivalLeaderboard(entries ?? []))
+          .catch(error => console.error('Error updating survival leaderboard:', error));
+      }
+
+      const adaptive = isAdaptive && gameMode === 'classic';
+      const gameResult = {
+        ...GameRewards.createGameResult(
+          gamePlayer.score,
+          equationCount,
+          gameTimeSpent,
+          adaptive
+            ? AdaptiveDifficulty.toDifficulty(adaptiveLevelRef.current)
+            : gameMode === 'survival' ? Survival.getDifficulty(gamePlayer.score) : getDifficultyForMode(gameMode),
+          0,
+          hintsUsed,
+          // Timed per question, so the feedback pause between questions doesn't count
+          questionRecordsRef.current.map(record => record.time),
+          // Classic rewards are normalised for the round's length
+          gameMode === 'classic' ? (gameQuestions ? gameTimeSpent : gameTime) : undefined
+        ),
+        questions: questionRecordsRef.current,
+        mode: gameMode,
+        variant: gameMode === 'classic'
+          ? (isAdaptive ? `${questionTrack} (adaptive)` : questionTrack)
+          : gameMode === 'times_tables'
+            ? timesTableSession
+            : gameMode === 'practice'
+              ? activePracticeSet?.name
+              : undefined,
+      };
+      
+      // Save mastery before the result so the reloaded profile includes both
+      await PlayerStorageService.updateSkillMastery(
+        skillMasteryRef.current,
+        adaptive ? adaptiveLevelRef.current : undefined
+      );
+      await saveResultAndRefreshProfile(gameResult);
     } catch (error) {
       console.error('Error saving game result:', error);
     }
@@ -787,9 +1473,19 @@ function AppContent() {
 
   // Handle quitting game early (without saving stats)
   const handleQuitGame = () => {
+    if (gameMode === 'zen') {
+      Alert.alert('End Session?', 'Your practice time and progress will be saved.', [
+        { text: 'Keep Practising', style: 'cancel' },
+        { text: 'End', onPress: () => finishGame() },
+      ]);
+      return;
+    }
+
     Alert.alert(
       'Quit Game?',
-      'Are you sure you want to quit? Your progress will not be saved.',
+      gameMode === 'times_tables'
+        ? 'Your times tables progress is saved. Quit this session?'
+        : 'Are you sure you want to quit? Your progress will not be saved.',
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -797,6 +1493,7 @@ function AppContent() {
           style: 'destructive',
           onPress: () => {
             // Reset game state without saving
+            cancelFeedbackSteps();
             setGameState('setup');
             setGamePlayer({
               id: 1,
@@ -808,6 +1505,8 @@ function AppContent() {
             });
             setTimeLeft(gameTime);
             setEquationCount(0);
+            setIsPaused(false);
+            PlayerStorageService.clearGameSnapshot();
             // Generate new equation for next game
             setCurrentEquation(generateEquation());
           },
@@ -822,53 +1521,22 @@ function AppContent() {
     setSpaceIncorrectFeedback(false);
   };
 
+  // Save times tables progress straight away so it survives a quit game
   const saveTimesTablesProgress = (table: number, multiplier: number, completed: number[], progress: {[key: number]: number}) => {
-    // Implement saving logic or leave as stub
-  };
-
-  const renderKeypad = () => {
-    const keyRows = [
-      ['1', '2', '3'],
-      ['4', '5', '6'],
-      ['7', '8', '9'],
-      ['Clear', '0', 'Enter']
-    ];
-    
-    return (
-      <View style={styles.keypad}>
-        {keyRows.map((row, rowIndex) => (
-          <View key={rowIndex} style={styles.keypadRow}>
-            {row.map((key) => (
-              <TouchableOpacity
-                key={key}
-                style={[
-                  styles.key,
-                  key === 'Clear' && styles.clearKey,
-                  key === 'Enter' && styles.enterKey,
-                ]}
-                onPress={() => {
-                  if (key === 'Clear') {
-                    handleDelete();
-                  } else if (key === 'Enter') {
-                    submitAnswer(gamePlayer.currentAnswer);
-                  } else {
-                    handleNumberPress(key);
-                  }
-                }}
-              >
-                <Text style={[
-                  styles.keyText,
-                  key === 'Clear' && styles.clearKeyText,
-                  key === 'Enter' && styles.enterKeyText,
-                ]}>
-                  {key === 'Clear' ? '⌫' : key === 'Enter' ? '✓' : key}
-                </Text>
-              </TouchableOpacity>
-            ))}
-          </View>
-        ))}
-      </View>
-    );
+    const updated = {
+      currentTable: table,
+      currentMultiplier: multiplier,
+      completedTables: completed,
+      progress,
+      facts: timesTableFactsRef.current,
+      multiplierOrder: multiplierOrderRef.current,
+      bestTimes: timesTableBestTimesRef.current,
+      options: timesTableOptionsRef.current,
+    };
+    setPlayerProfile(prev => (prev ? { ...prev, timesTablesProgress: updated } : prev));
+    return PlayerStorageService.updateTimesTablesProgress(updated).catch(error => {
+      console.error('Error saving times tables progress:', error);
+    });
   };
 
   // New auth screen handling moved earlier (authInitialized & showAuthScreen)
@@ -944,12 +1612,17 @@ function AppContent() {
           {/* Neumorphic Main Menu */}
           <MainMenuIslands onClassicMode={() => {
               setGameMode('classic');
-              startGame();
+              setGameState('difficulty-select');
             }}
-            onTimesTableMode={() => {
-              setGameMode('times_tables');
-              startGame();
+            onSurvivalMode={startSurvival}
+            onZenMode={() => {
+              setGameMode('zen');
+              setGameState('difficulty-select');
             }}
+            onTimesTableMode={() => setShowTimesTables(true)}
+            onReviewMode={startReview}
+            onPracticeSets={() => setShowPracticeSets(true)}
+            reviewDueCount={ReviewScheduler.countDue(playerProfile?.reviewFacts)}
             onBubblePopMode={() => {
               setGameMode('bubble_pop');
               setGameState('difficulty-select');
@@ -1081,6 +1754,7 @@ function AppContent() {
             <View style={[styles.difficultyModalContainer, { backgroundColor: theme.colors.card }]}>
               <Text style={[styles.difficultyModalTitle, { color: theme.colors.text }]}>Select Difficulty</Text>
               <Text style={[styles.difficultyModalSubtitle, { color: theme.colors.textSecondary }]}>Choose your challenge for Online PvP</Text>
+              {renderTrackOptions(ONLINE_TRACKS)}
               <View style={styles.difficultyOptionsRow}>
                 <TouchableOpacity
                   style={[styles.difficultyOptionButton, styles.difficultyEasy]}
@@ -1126,6 +1800,82 @@ function AppContent() {
     </BackgroundWrapper>
   );
 
+  // Question family chips; a track the mode can't play falls back to whole numbers
+  const renderTrackOptions = (tracks: QuestionTrack[]) => {
+    const selected = getTrackForMode(tracks);
+    return (
+      <View style={styles.trackOptionsRow}>
+        {TRACK_OPTIONS.filter(option => tracks.includes(option.track)).map(option => (
+          <TouchableOpacity
+            key={option.track}
+            style={[
+              styles.trackOption,
+              { backgroundColor: theme.colors.surface },
+              selected === option.track && styles.trackOptionSelected,
+            ]}
+            onPress={() => setQuestionTrack(option.track)}
+          >
+            <Text style={[
+              styles.trackOptionText,
+              { color: selected === option.track ? 'white' : theme.colors.text },
+            ]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    );
+  };
+
+  // Save the chosen round length to the player's settings
+  const setGameLength = async (length: { gameTime: number; gameQuestions?: number }) => {
+    setPlayerProfile(prev => (prev ? { ...prev, settings: { ...prev.settings, ...length } } : prev));
+    try {
+      await PlayerStorageService.updatePlayerSettings(length);
+    } catch (error) {
+      console.error('Error saving game length:', error);
+    }
+  };
+
+  const renderLengthOptions = () => {
+    const options = [
+      ...GAME_TIME_OPTIONS.map(seconds => ({
+        key: `time-${seconds}`,
+        label: seconds < 60 ? `⏱️ ${seconds}s` : `⏱️ ${seconds / 60}m`,
+        selected: !gameQuestions && gameTime === seconds,
+        length: { gameTime: seconds, gameQuestions: undefined },
+      })),
+      ...GAME_QUESTION_OPTIONS.map(count => ({
+        key: `questions-${count}`,
+        label: `🔢 ${count} Qs`,
+        selected: gameQuestions === count,
+        length: { gameTime, gameQuestions: count },
+      })),
+    ];
+    return (
+      <View style={styles.trackOptionsRow}>
+        {options.map(option => (
+          <TouchableOpacity
+            key={option.key}
+            style={[
+              styles.trackOption,
+              { backgroundColor: theme.colors.surface },
+              option.selected && styles.trackOptionSelected,
+            ]}
+            onPress={() => setGameLength(option.length)}
+          >
+            <Text style={[
+              styles.trackOptionText,
+              { color: option.selected ? 'white' : theme.colors.text },
+            ]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    );
+  };
+
   // Render game screen
   const renderGame = () => (
     <TouchableWithoutFeedback onPress={dismissKeyboard}>
@@ -1157,11 +1907,52 @@ function AppContent() {
                   <Text style={[styles.scoreIsland, { color: theme.colors.text }]}>Score: {gamePlayer.score}</Text>
                   {gameMode === 'times_tables' && (
                     <Text style={[styles.timesTableProgressIsland, { color: theme.colors.text }]}>
-                      {currentTable}× Table: {currentMultiplier}/15
+                      {timesTableSession === 'challenge'
+                        ? `⏱️ ${timesTableSessionTables[0]}× Challenge: ${gamePlayer.score}/${TimesTables.SIZE}`
+                        : isTimesTableQueue
+                          ? `🔀 Review: ${Math.min(equationCount + 1, timesTableQueueRef.current.length)}/${timesTableQueueRef.current.length}`
+                          : `${currentTable}× Table: ${currentMultiplier}/15`}
+                    </Text>
+                  )}
+                  {gameMode === 'classic' && !!gameQuestions && (
+                    <Text style={[styles.timesTableProgressIsland, { color: theme.colors.text }]}>
+                      Question {Math.min(equationCount + 1, gameQuestions)}/{gameQuestions}
+                    </Text>
+                  )}
+                  {gameMode === 'zen' && (
+                    <Text style={[styles.timesTableProgressIsland, { color: theme.colors.text }]}>
+                      🧘 {gamePlayer.score}/{questionRecordsRef.current.length} correct
+                      {questionRecordsRef.current.length > 0
+                        ? ` · ${Math.round((gamePlayer.score / questionRecordsRef.current.length) * 100)}%`
+                        : ''}
+                    </Text>
+                  )}
+                  {gameMode === 'survival' && (
+                    <Text style={[styles.timesTableProgressIsland, { color: theme.colors.text }]}>
+                      🔥 Streak: {survivalStreak} · {Survival.getDifficulty(gamePlayer.score).toUpperCase()}
+                    </Text>
+                  )}
+                  {gameMode === 'review' && (
+                    <Text style={[styles.timesTableProgressIsland, { color: theme.colors.text }]}>
+                      Review: {Math.min(equationCount + 1, reviewSessionRef.current.length)}/{reviewSessionRef.current.length}
+                    </Text>
+                  )}
+                  {gameMode === 'practice' && activePracticeSet && (
+                    <Text style={[styles.timesTableProgressIsland, { color: theme.colors.text }]}>
+                      {activePracticeSet.name}: {Math.min(equationCount + 1, activePracticeSet.questionCount)}/{activePracticeSet.questionCount}
                     </Text>
                   )}
                 </IslandCard>
                 
+                {gameMode !== 'multiplayer' && (
+                  <IslandButton
+                    icon="⏸"
+                    size="small"
+                    variant="secondary"
+                    onPress={pauseGame}
+                  />
+                )}
+
                 <IslandButton
                   icon="📝"
                   size="small"
@@ -1171,21 +1962,58 @@ function AppContent() {
               </View>
             
             {/* Floating Timer Island */}
-            {gameMode === 'classic' && (
+            {isTimedMode && (
               <IslandCard variant="floating" padding={10} style={styles.timerIsland}>
                 <Text style={styles.timerIslandText}>⏱️ {timeLeft}s</Text>
               </IslandCard>
             )}
+            {gameMode === 'survival' && (
+              <IslandCard variant="floating" padding={10} style={styles.timerIsland}>
+                <Text style={styles.timerIslandText}>
+                  {'❤️'.repeat(livesLeft)}{'🖤'.repeat(Survival.STARTING_LIVES - livesLeft)}  ⏱️ {timeLeft}s
+                </Text>
+              </IslandCard>
+            )}
 
             <Animated.View style={{ opacity: fadeAnim, alignSelf: 'center' }}>
-              <IslandCard variant="floating" padding={16} style={styles.equationIslandCard}>
-                <Text style={[
-                  styles.equation,
-                  { color: theme.colors.text }
-                ]}>{currentEquation.question}</Text>
+              <IslandCard
+                variant="floating"
+                padding={16}
+                style={currentEquation.prose ? { ...styles.equationIslandCard, ...styles.wordProblemCard } : styles.equationIslandCard}
+              >
+                {currentEquation.prose ? (
+                  <Text style={[styles.wordProblemText, { color: theme.colors.text }]}>{currentEquation.prose}</Text>
+                ) : (
+                  <Text
+                    style={[
+                      styles.equation,
+                      { color: theme.colors.text }
+                    ]}
+                    numberOfLines={1}
+                    adjustsFontSizeToFit
+                  >{currentEquation.question}</Text>
+                )}
               </IslandCard>
             </Animated.View>
 
+            {/* Hints are revealed one at a time and count against the game's rewards */}
+            {currentHints.length > 0 && (
+              <View style={styles.hintContainer}>
+                {currentHints.slice(0, hintsShown).map(hint => (
+                  <Text key={hint} style={[styles.hintText, { color: theme.colors.text }]}>💡 {hint}</Text>
+                ))}
+                {hintsShown < currentHints.length && (
+                  <TouchableOpacity
+                    style={styles.hintButton}
+                    onPress={revealHint}
+                    disabled={gamePlayer.isCorrect !== null}
+                  >
+                    <Text style={styles.hintButtonText}>{hintsShown === 0 ? '💡 Hint' : '💡 Another hint'}</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            )}
+
             <View style={styles.singlePlayerContainer}>
               {/* Pill-shaped Input Field with Color Feedback */}
               <View style={[
@@ -1235,7 +2063,16 @@ function AppContent() {
 
               {/* Custom Numeric Keypad */}
               <View style={[styles.keypadContainer, { backgroundColor: theme.colors.surface }]}>
-                {renderKeypad()}
+                <NumericKeypad
+                  value={gamePlayer.currentAnswer}
+                  onChange={answer => setGamePlayer(prev => ({ ...prev, currentAnswer: answer }))}
+                  onSubmit={submitAnswer}
+                  layout={playerProfile?.settings.keyboardLayout ?? DEFAULT_PLAYER_SETTINGS.keyboardLayout}
+                  autoSubmit={playerProfile?.settings.autoSubmit ?? false}
+                  answerLength={expectedAnswerLength}
+                  extraKeys={keypadExtraKeys}
+                  disabled={gamePlayer.isCorrect !== null}
+                />
               </View>
 
               {/* Debug display removed for cleaner UI */}
@@ -1246,7 +2083,7 @@ function AppContent() {
                     styles.feedback,
                     gamePlayer.isCorrect ? styles.correctFeedback : styles.incorrectFeedback
                   ]}>
-                    {gamePlayer.isCorrect ? '🎉 Correct!' : `❌ Wrong! Answer: ${currentEquation.answer}`}
+                    {gamePlayer.isCorrect ? '🎉 Correct!' : `❌ Wrong! Answer: ${AnswerChecker.formatAnswer(currentEquation)}`}
                   </Text>
                 </Animated.View>
               )}
@@ -1254,6 +2091,29 @@ function AppContent() {
               {/* Removed dismiss keyboard button - using custom keypad now */}
               </View>
             </View>
+
+            {isPaused && (
+              <View style={styles.pauseOverlay}>
+                <IslandCard variant="elevated" padding={24} style={styles.pauseCard}>
+                  <Text style={[styles.pauseTitle, { color: theme.colors.text }]}>⏸ Paused</Text>
+                  <TouchableOpacity style={styles.pauseResumeButton} onPress={resumeGame}>
+                    <Text style={styles.pauseButtonText}>▶ Resume</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.pauseResumeButton, styles.pauseQuitButton]}
+                    onPress={() => {
+                      // Timed games stay paused behind the quit prompt; ending Zen counts the pause first
+                      if (gameMode === 'zen') {
+                        resumeGame();
+                      }
+                      handleQuitGame();
+                    }}
+                  >
+                    <Text style={styles.pauseButtonText}>{gameMode === 'zen' ? '🏁 End Session' : '✕ Quit'}</Text>
+                  </TouchableOpacity>
+                </IslandCard>
+              </View>
+            )}
           </SafeAreaView>
         </KeyboardAvoidingView>
       </BackgroundWrapper>
@@ -1263,7 +2123,11 @@ function AppContent() {
   // Render results screen
   const renderResults = () => {
     const accuracy = equationCount > 0 ? Math.round((gamePlayer.score / equationCount) * 100) : 0;
-    const avgTimePerEquation = equationCount > 0 ? Math.round((gameTime - timeLeft) / equationCount) : 0;
+    // Mean of the per-question times, which leave out the feedback pause after each answer
+    const answerTimes = questionRecordsRef.current.map(record => record.time);
+    const avgTimePerEquation = answerTimes.length > 0
+      ? (answerTimes.reduce((sum, time) => sum + time, 0) / answerTimes.length).toFixed(1)
+      : equationCount > 0 ? (timePlayed / equationCount).toFixed(1) : '0';
 
     return (
       <BackgroundWrapper colors={backgroundColors} type={backgroundType} animationType={animationType} style={styles.container}>
@@ -1274,7 +2138,17 @@ function AppContent() {
             bounces={false}
           >
           <Text style={[styles.title, { color: getContrastColor(backgroundType, theme) }]}>
-            {gameMode === 'times_tables' ? '🔢 Times Tables Complete!' : '🎯 Game Complete!'}
+            {gameMode === 'times_tables'
+              ? timesTableSession === 'challenge' ? '⏱️ Challenge Complete!' : '🔢 Times Tables Complete!'
+              : gameMode === 'survival'
+                ? '❤️ Survival Over!'
+                : gameMode === 'zen'
+                  ? '🧘 Zen Session Complete'
+                  : gameMode === 'review'
+                    ? '📚 Review Complete!'
+                    : gameMode === 'practice'
+                      ? '📝 Practice Complete!'
+                      : '🎯 Game Complete!'}
           </Text>
           
           <View style={styles.statsContainer}>
@@ -1298,7 +2172,74 @@ function AppContent() {
             <Text style={[styles.scoreboardTitle, { color: theme.colors.text }]}>
               {gameMode === 'times_tables' ? 'Times Tables Summary' : 'Game Summary'}
             </Text>
-            {gameMode === 'times_tables' ? (
+            {isTimesTableQueue && timesTableSession === 'challenge' ? (
+              <>
+                <View style={styles.summaryRow}>
+                  <Text style={[styles.summaryLabel, { color: theme.colors.textSecondary }]}>Table:</Text>
+                  <Text style={[styles.summaryValue, { color: theme.colors.text }]}>{timesTableSessionTables[0]}×</Text>
+                </View>
+                <View style={styles.summaryRow}>
+                  <Text style={[styles.summaryLabel, { color: theme.colors.textSecondary }]}>Time:</Text>
+                  <Text style={[styles.summaryValue, { color: theme.colors.text }]}>
+                    {challengeResult ? `${challengeResult.time.toFixed(1)}s` : '-'}
+                  </Text>
+                </View>
+                <View style={styles.summaryRow}>
+                  <Text style={[styles.summaryLabel, { color: theme.colors.textSecondary }]}>Best Time:</Text>
+                  <Text style={[styles.summaryValue, { color: theme.colors.text }]}>
+                    {challengeResult && (challengeResult.previousBest === undefined || challengeResult.time < challengeResult.previousBest)
+                      ? '🏆 New best!'
+                      : challengeResult?.previousBest !== undefined
+                        ? `${challengeResult.previousBest.toFixed(1)}s`
+                        : '-'}
+                  </Text>
+                </View>
+                <View style={styles.summaryRow}>
+                  <Text style={[styles.summaryLabel, { color: theme.colors.textSecondary }]}>Misses:</Text>
+                  <Text style={[styles.summaryValue, { color: theme.colors.text }]}>{equationCount - gamePlayer.score}</Text>
+                </View>
+              </>
+            ) : gameMode === 'survival' ? (
+              <>
+                <View style={styles.summaryRow}>
+                  <Text style={[styles.summaryLabel, { color: theme.colors.textSecondary }]}>Longest Streak:</Text>
+                  <Text style={[styles.summaryValue, { color: theme.colors.text }]}>{survivalResult?.run.longestStreak ?? 0}</Text>
+                </View>
+                <View style={styles.summaryRow}>
+                  <Text style={[styles.summaryLabel, { color: theme.colors.textSecondary }]}>Difficulty Reached:</Text>
+                  <Text style={[styles.summaryValue, { color: theme.colors.text }]}>
+                    {Survival.getDifficulty(gamePlayer.score).toUpperCase()}
+                  </Text>
+                </View>
+                <View style={styles.summaryRow}>
+                  <Text style={[styles.summaryLabel, { color: theme.colors.textSecondary }]}>Best Run:</Text>
+                  <Text style={[styles.summaryValue, { color: theme.colors.text }]}>
+                    {survivalResult?.isNewBest
+                      ? '🏆 New best!'
+                      : survivalResult?.previousBest
+                        ? `${survivalResult.previousBest.score} correct`
+                        : '-'}
+                  </Text>
+                </View>
+                <View style={styles.summaryRow}>
+                  <Text style={[styles.summaryLabel, { color: theme.colors.textSecondary }]}>Time Played:</Text>
+                  <Text style={[styles.summaryValue, { color: theme.colors.text }]}>{timePlayed}s</Text>
+                </View>
+              </>
+            ) : isTimesTableQueue ? (
+              <>
+                <View style={styles.summaryRow}>
+                  <Text style={[styles.summaryLabel, { color: theme.colors.textSecondary }]}>Tables Reviewed:</Text>
+                  <Text style={[styles.summaryValue, { color: theme.colors.text }]}>
+                    {timesTableSessionTables.map(table => `${table}×`).join(', ')}
+                  </Text>
+                </View>
+                <View style={styles.summaryRow}>
+                  <Text style={[styles.summaryLabel, { color: theme.colors.textSecondary }]}>Facts Answered:</Text>
+                  <Text style={[styles.summaryValue, { color: theme.colors.text }]}>{equationCount}</Text>
+                </View>
+              </>
+            ) : gameMode === 'times_tables' ? (
               <>
                 <View style={styles.summaryRow}>
                   <Text style={[styles.summaryLabel, { color: theme.colors.textSecondary }]}>Tables Completed:</Text>
@@ -1321,16 +2262,54 @@ function AppContent() {
                 </View>
                 <View style={styles.summaryRow}>
                   <Text style={[styles.summaryLabel, { color: theme.colors.textSecondary }]}>Difficulty:</Text>
-                  <Text style={[styles.summaryValue, { color: theme.colors.text }]}>{currentDifficulty.toUpperCase()}</Text>
+                  <Text style={[styles.summaryValue, { color: theme.colors.text }]}>
+                    {gameMode === 'review'
+                      ? 'REVIEW'
+                      : gameMode === 'practice' && activePracticeSet
+                        ? activePracticeSet.name
+                        : isAdaptive && gameMode === 'classic'
+                          ? `ADAPTIVE (${AdaptiveDifficulty.toDifficulty(adaptiveLevelRef.current).toUpperCase()})`
+                          : currentDifficulty.toUpperCase()}
+                  </Text>
                 </View>
                 <View style={styles.summaryRow}>
                   <Text style={[styles.summaryLabel, { color: theme.colors.textSecondary }]}>Time Played:</Text>
-                  <Text style={[styles.summaryValue, { color: theme.colors.text }]}>{gameTime - timeLeft}s</Text>
+                  <Text style={[styles.summaryValue, { color: theme.colors.text }]}>{timePlayed}s</Text>
+                </View>
+                {(gameMode === 'bubble_pop' || gameMode === 'bubble_plus') && (
+                  <View style={styles.summaryRow}>
+                    <Text style={[styles.summaryLabel, { color: theme.colors.textSecondary }]}>Bubble Points:</Text>
+                    <Text style={[styles.summaryValue, { color: theme.colors.text }]}>{bubblePoints}</Text>
+                  </View>
+                )}
+                {hintsUsed > 0 && (
+                  <View style={styles.summaryRow}>
+                    <Text style={[styles.summaryLabel, { color: theme.colors.textSecondary }]}>Hints Used:</Text>
+                    <Text style={[styles.summaryValue, { color: theme.colors.text }]}>{hintsUsed}</Text>
+                  </View>
+                )}
+                <View style={styles.summaryRow}>
+                  <Text style={[styles.summaryLabel, { color: theme.colors.textSecondary }]}>Game Seed:</Text>
+                  <Text style={[styles.summaryValue, { color: theme.colors.text }]}>{gameSeed}</Text>
                 </View>
               </>
             )}
           </IslandCard>
 
+          {gameMode === 'survival' && survivalLeaderboard.length > 0 && (
+            <IslandCard variant="elevated" style={styles.scoreboardIsland}>
+              <Text style={[styles.scoreboardTitle, { color: theme.colors.text }]}>❤️ Survival Leaderboard</Text>
+              {survivalLeaderboard.slice(0, 10).map((entry, index) => (
+                <View key={entry.playerId} style={styles.summaryRow}>
+                  <Text style={[styles.summaryLabel, { color: theme.colors.textSecondary }]}>
+                    {index + 1}. {entry.playerName}{entry.playerId === playerProfile?.id ? ' (you)' : ''}
+                  </Text>
+                  <Text style={[styles.summaryValue, { color: theme.colors.text }]}>{entry.score}</Text>
+                </View>
+              ))}
+            </IslandCard>
+          )}
+
           <TouchableOpacity style={styles.playAgainButtonIsland} onPress={() => setGameState('setup')}>
             <Text style={styles.playAgainButtonText}>🔄 Play Again</Text>
           </TouchableOpacity>
@@ -1539,42 +2518,52 @@ function AppContent() {
                   Select Difficulty
                 </Text>
                 <Text style={[styles.difficultySelectSubtitle, { color: theme.colors.textSecondary }]}>
-                  {gameMode === 'bubble_plus' ? 'Bubble Pop PLUS ⚡ - Fast Mode!' : 'Choose your challenge for Bubble Pop'}
+                  {gameMode === 'bubble_plus'
+                    ? 'Bubble Pop PLUS ⚡ - Fast Mode!'
+                    : gameMode === 'classic'
+                      ? 'Choose your challenge for Classic'
+                      : gameMode === 'zen'
+                        ? 'Zen 🧘 - no timer, no score, stop whenever you like'
+                        : 'Choose your challenge for Bubble Pop'}
                 </Text>
 
+                {renderTrackOptions(usesClassicQuestions ? ALL_TRACKS : INTEGER_ANSWER_TRACKS)}
+                {gameMode !== 'zen' && renderLengthOptions()}
+
                 <View style={styles.difficultyOptionsColumn}>
                   <TouchableOpacity
                     style={[styles.difficultyOptionButtonLarge, styles.difficultyEasy]}
-                    onPress={() => {
-                      setDifficultyForMode(gameMode, 'easy');
-                      setGameState('playing');
-                    }}
+                    onPress={() => handleDifficultySelected('easy')}
                   >
                     <Text style={styles.difficultyOptionTextLarge}>🟢 Easy</Text>
-                    <Text style={styles.difficultyOptionDesc}>Numbers 1-10, +/−</Text>
+                    <Text style={styles.difficultyOptionDesc}>{EquationGenerator.getDifficultyDescription('easy', getPickerTrack())}</Text>
                   </TouchableOpacity>
 
                   <TouchableOpacity
                     style={[styles.difficultyOptionButtonLarge, styles.difficultyMedium]}
-                    onPress={() => {
-                      setDifficultyForMode(gameMode, 'medium');
-                      setGameState('playing');
-                    }}
+                    onPress={() => handleDifficultySelected('medium')}
                   >
                     <Text style={styles.difficultyOptionTextLarge}>🟡 Medium</Text>
-                    <Text style={styles.difficultyOptionDesc}>Numbers 1-20, +/−/×</Text>
+                    <Text style={styles.difficultyOptionDesc}>{EquationGenerator.getDifficultyDescription('medium', getPickerTrack())}</Text>
                   </TouchableOpacity>
 
                   <TouchableOpacity
                     style={[styles.difficultyOptionButtonLarge, styles.difficultyHard]}
-                    onPress={() => {
-                      setDifficultyForMode(gameMode, 'hard');
-                      setGameState('playing');
-                    }}
+                    onPress={() => handleDifficultySelected('hard')}
                   >
                     <Text style={styles.difficultyOptionTextLarge}>🔴 Hard</Text>
-                    <Text style={styles.difficultyOptionDesc}>Numbers 1-50, +/−/×/÷</Text>
+                    <Text style={styles.difficultyOptionDesc}>{EquationGenerator.getDifficultyDescription('hard', getPickerTrack())}</Text>
                   </TouchableOpacity>
+
+                  {gameMode === 'classic' && (
+                    <TouchableOpacity
+                      style={[styles.difficultyOptionButtonLarge, styles.difficultyAdaptive]}
+                      onPress={() => handleDifficultySelected('adaptive')}
+                    >
+                      <Text style={styles.difficultyOptionTextLarge}>🧠 Adaptive</Text>
+                      <Text style={styles.difficultyOptionDesc}>Adjusts to you and practices your weak spots</Text>
+                    </TouchableOpacity>
+                  )}
                 </View>
 
                 <TouchableOpacity
@@ -1610,6 +2599,11 @@ function AppContent() {
       {gameState === 'playing' && gameMode === 'bubble_pop' && (
         <BubblePopGameScreen
           difficulty={currentDifficulty}
+          seed={gameSeed}
+          track={getTrackForMode(INTEGER_ANSWER_TRACKS)}
+          questionStyle={playerProfile?.settings.questionStyle}
+          timeLimit={gameTime}
+          questionLimit={gameQuestions}
           onBack={handleBubbleGameBack}
           onGameComplete={handleBubbleGameComplete}
           backgroundColors={backgroundColors}
@@ -1620,6 +2614,11 @@ function AppContent() {
       {gameState === 'playing' && gameMode === 'bubble_plus' && (
         <BubblePlusGameScreen
           difficulty={currentDifficulty}
+          seed={gameSeed}
+          track={getTrackForMode(INTEGER_ANSWER_TRACKS)}
+          questionStyle={playerProfile?.settings.questionStyle}
+          timeLimit={gameTime}
+          questionLimit={gameQuestions}
           onBack={handleBubbleGameBack}
           onGameComplete={handleBubbleGameComplete}
           backgroundColors={backgroundColors}
@@ -1649,6 +2648,7 @@ function AppContent() {
           backgroundType={backgroundType}
           animationType={animationType}
           difficulty={currentDifficulty}
+          track={getTrackForMode(ONLINE_TRACKS)}
           onGameEnd={async (results: any) => {
             // Calculate experience based on score and difficulty
             const correctAnswers = results.score / 10; // Each correct answer is 10 points
@@ -1673,6 +2673,8 @@ function AppContent() {
               coinsEarned: results.coinsEarned || 0,
               experienceGained,
               playedAt: new Date(),
+              mode: 'online' as const,
+              variant: getTrackForMode(ONLINE_TRACKS),
             };
             
             // Save game to history (this also adds coins and XP)
@@ -1804,6 +2806,40 @@ function AppContent() {
         </Modal>
       )}
 
+      {/* Practice Sets Screen */}
+      {showPracticeSets && playerProfile && (
+        <Modal visible={showPracticeSets} animationType="slide" presentationStyle="fullScreen">
+          <PracticeSetsScreen
+            practiceSets={playerProfile.practiceSets ?? []}
+            onSave={handleSavePracticeSet}
+            onDelete={handleDeletePracticeSet}
+            onPlay={startPracticeSet}
+            onImport={handleImportPracticeSetCode}
+            onBack={() => setShowPracticeSets(false)}
+            backgroundColors={backgroundColors}
+            backgroundType={backgroundType}
+            animationType={animationType}
+          />
+        </Modal>
+      )}
+
+      {/* Times Tables Screen */}
+      {showTimesTables && playerProfile && (
+        <Modal visible={showTimesTables} animationType="slide" presentationStyle="fullScreen">
+          <TimesTablesScreen
+            progress={playerProfile.timesTablesProgress}
+            onContinue={options => startTimesTables(options)}
+            onStartTable={(table, options) => startTimesTables(options, table)}
+            onStartReview={startTimesTablesReview}
+            onStartChallenge={startTimesTableChallenge}
+            onBack={() => setShowTimesTables(false)}
+            backgroundColors={backgroundColors}
+            backgroundType={backgroundType}
+            animationType={animationType}
+          />
+        </Modal>
+      )}
+
       {/* Incoming Challenge Popup */}
       {incomingChallenge && (
         <View style={{
@@ -2010,6 +3046,26 @@ const styles = StyleSheet.create({
   difficultyEasy: { backgroundColor: '#4CAF50' },
   difficultyMedium: { backgroundColor: '#FFC107' },
   difficultyHard: { backgroundColor: '#F44336' },
+  difficultyAdaptive: { backgroundColor: '#7E57C2' },
+  trackOptionsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+    marginBottom: 16,
+  },
+  trackOption: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+  },
+  trackOptionSelected: {
+    backgroundColor: '#2196F3',
+  },
+  trackOptionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
   difficultyOptionText: {
     color: 'white',
     fontSize: 16,
@@ -2879,58 +3935,6 @@ const styles = StyleSheet.create({
   someStyleNeedingWidth: {
     minWidth: width * 0.8,
   },
-  // Keypad styles - compact numpad layout
-  keypad: {
-    alignItems: 'center',
-    paddingHorizontal: 20,
-    paddingBottom: 10,
-    backgroundColor: 'transparent', // Let background show through
-  },
-  keypadRow: {
-    flexDirection: 'row',
-    justifyContent: 'center',
-    marginBottom: 8,
-  },
-  key: {
-    width: 70,
-    height: 55,
-    backgroundColor: '#000000', // Black background
-    justifyContent: 'center',
-    alignItems: 'center',
-    borderRadius: 8,
-    marginHorizontal: 6,
-    elevation: 2,
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.1,
-    shadowRadius: 2,
-    borderWidth: 1.5,
-    borderColor: '#ffffff', // White outline
-  },
-  keyText: {
-    fontSize: 20,
-    fontWeight: '600',
-    color: '#ffffff', // White text
-  },
-  clearKey: {
-    backgroundColor: '#000000', // Keep black background
-    borderColor: '#ff5722', // Red outline for clear
-    borderWidth: 2,
-  },
-  clearKeyText: {
-    color: '#ff5722', // Red text for clear
-    fontSize: 18,
-  },
-  enterKey: {
-    backgroundColor: '#000000', // Keep black background
-    borderColor: '#4caf50', // Green outline for enter
-    borderWidth: 2,
-  },
-  enterKeyText: {
-    color: '#4caf50', // Green text for enter
-    fontSize: 18,
-  },
-
   // Multiplayer mode selection styles
   multiplayerModeButton: {
     borderRadius: 12,
@@ -3072,6 +4076,69 @@ const styles = StyleSheet.create({
   equationIslandCard: {
     marginBottom: 16,
   },
+  wordProblemCard: {
+    maxWidth: width - 40,
+  },
+  wordProblemText: {
+    fontSize: 20,
+    lineHeight: 28,
+    fontWeight: '600',
+    textAlign: 'left',
+  },
+  hintContainer: {
+    alignItems: 'center',
+    marginBottom: 12,
+    gap: 6,
+  },
+  hintText: {
+    fontSize: 15,
+    fontWeight: '500',
+    textAlign: 'center',
+    paddingHorizontal: 20,
+  },
+  pauseOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: '#000', // Opaque, so the question can't be worked on while the clock is stopped
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  pauseCard: {
+    alignItems: 'center',
+    minWidth: 220,
+  },
+  pauseTitle: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    marginBottom: 20,
+  },
+  pauseResumeButton: {
+    backgroundColor: '#4CAF50',
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    marginTop: 10,
+    alignSelf: 'stretch',
+    alignItems: 'center',
+  },
+  pauseQuitButton: {
+    backgroundColor: '#FF4757',
+  },
+  pauseButtonText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  hintButton: {
+    backgroundColor: '#FFB74D',
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+  },
+  hintButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
   modeButtonIsland: {
     flex: 1,
     marginHorizontal: 5,
@@ -7,6 +7,7 @@ import {
   Animated,
   Dimensions,
   Alert,
+  AppState,
 } from 'react-native';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 import { LinearGradient } from 'expo-linear-gradient';
@@ -14,13 +15,21 @@ import { IslandButton } from './IslandButton';
 import { IslandCard } from './IslandCard';
 import { useTheme } from '../contexts/ThemeContext';
 import { BackgroundWrapper } from './BackgroundWrapper';
+import { EquationGenerator } from '../utils/EquationGenerator';
+import { SeededRandom } from '../utils/SeededRandom';
+import { Difficulty, Equation, QuestionStyle, QuestionTrack } from '../types/Equation';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 
 interface BubblePopGameScreenProps {
-  difficulty: 'easy' | 'medium' | 'hard';
+  difficulty: Difficulty;
+  seed?: number; // Reproduces the same question sequence when provided
+  track?: QuestionTrack; // Integer-answer tracks only ('whole', 'expressions' or 'algebra')
+  questionStyle?: QuestionStyle;
+  timeLimit?: number; // Round length in seconds
+  questionLimit?: number; // When set, the round ends after this many questions and has no clock
   onBack: () => void;
-  onGameComplete: (score: number, totalQuestions: number, accuracy: number) => void;
+  onGameComplete: (score: number, totalQuestions: number, accuracy: number, correctAnswers: number, playedSeconds: number) => void;
   backgroundColors: string[];
   backgroundType: string;
   animationType?: string;
@@ -41,14 +50,6 @@ interface Bubble {
   velocityY: number;
 }
 
-interface Equation {
-  question: string;
-  answer: number;
-  num1: number;
-  num2: number;
-  operation: string;
-}
-
 const BUBBLE_COLORS = [
   '#FF6B6B', // Red
   '#4ECDC4', // Teal
@@ -62,6 +63,11 @@ const BUBBLE_COLORS = [
 
 export const BubblePopGameScreen: React.FC<BubblePopGameScreenProps> = ({
   difficulty,
+  seed,
+  track = 'whole',
+  questionStyle = 'result',
+  timeLimit = 60,
+  questionLimit,
   onBack,
   onGameComplete,
   backgroundColors,
@@ -80,13 +86,14 @@ export const BubblePopGameScreen: React.FC<BubblePopGameScreenProps> = ({
   const [questionNumber, setQuestionNumber] = useState(1);
   const [currentEquation, setCurrentEquation] = useState<Equation | null>(null);
   const [bubbles, setBubbles] = useState<Bubble[]>([]);
-  const [timeLeft, setTimeLeft] = useState(60);
+  const [timeLeft, setTimeLeft] = useState(timeLimit);
   const [isGameActive, setIsGameActive] = useState(true);
   const [totalCorrect, setTotalCorrect] = useState(0);
   const [feedbackAnimation] = useState(new Animated.Value(0));
   const [showCorrectFeedback, setShowCorrectFeedback] = useState(false);
   const [showIncorrectFeedback, setShowIncorrectFeedback] = useState(false);
   const [isProcessingAnswer, setIsProcessingAnswer] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
 
   const timerRef = useRef<NodeJS.Timeout | null>(null);
   const totalQuestionsRef = useRef(0);
@@ -101,6 +108,14 @@ export const BubblePopGameScreen: React.FC<BubblePopGameScreenProps> = ({
   const isGameActiveRef = useRef(true);
   const isMountedRef = useRef(true);
   const escapeTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const escapeDueAtRef = useRef(0);
+  const escapeRemainingRef = useRef<number | null>(null); // Delay left on the escape timeout when the game was paused
+  const isPausedRef = useRef(false);
+  const heldPopRef = useRef<(() => void) | null>(null); // Follow-up of a pop whose animation ended while paused
+  const startedAtRef = useRef(Date.now());
+  const pausedAtRef = useRef(0);
+  const pausedForRef = useRef(0); // Milliseconds spent paused, left out of the time played
+  const randomRef = useRef(SeededRandom.create(seed ?? SeededRandom.createSeed()));
 
   // Keep refs in sync with state
   useEffect(() => {
@@ -117,86 +132,27 @@ export const BubblePopGameScreen: React.FC<BubblePopGameScreenProps> = ({
   const getDifficultySettings = () => {
     switch (difficulty) {
       case 'easy':
-        return { min: 1, max: 10, bubbleCount: 4, timeLimit: 60 };
+        return { bubbleCount: 4 };
       case 'medium':
-        return { min: 1, max: 20, bubbleCount: 5, timeLimit: 60 };
+        return { bubbleCount: 5 };
       case 'hard':
-        return { min: 1, max: 50, bubbleCount: 6, timeLimit: 60 };
+        return { bubbleCount: 6 };
       default:
-        return { min: 1, max: 10, bubbleCount: 4, timeLimit: 60 };
+        return { bubbleCount: 4 };
     }
   };
 
   // Generate random equation
-  const generateEquation = (): Equation => {
-    const settings = getDifficultySettings();
-    const operations = ['+', '-', '×'];
-    const operation = operations[Math.floor(Math.random() * operations.length)];
-
-    let num1 = Math.floor(Math.random() * (settings.max - settings.min + 1)) + settings.min;
-    let num2 = Math.floor(Math.random() * (settings.max - settings.min + 1)) + settings.min;
-    let answer = 0;
-
-    switch (operation) {
-      case '+':
-        answer = num1 + num2;
-        break;
-      case '-':
-        // Ensure no negative answers for all difficulties
-        if (num1 < num2) {
-          [num1, num2] = [num2, num1];
-        }
-        answer = num1 - num2;
-        break;
-      case '×':
-        answer = num1 * num2;
-        break;
-    }
-
-    // Round to avoid floating point errors
-    answer = Math.round(answer * 10) / 10;
-
-    return {
-      question: `${num1} ${operation} ${num2}`,
-      answer,
-      num1,
-      num2,
-      operation,
-    };
-  };
-
-  // Generate wrong answers
-  const generateWrongAnswers = (correctAnswer: number, count: number): number[] => {
-    const wrongAnswers: Set<number> = new Set();
-    const range = difficulty === 'easy' ? 10 : difficulty === 'medium' ? 20 : 30;
-
-    while (wrongAnswers.size < count) {
-      // Generate offset but ensure final answer is always >= 0
-      let wrongAnswer: number;
-      if (correctAnswer < Math.floor(range / 2)) {
-        // If correct answer is small, bias towards positive offsets
-        const offset = Math.floor(Math.random() * range);
-        wrongAnswer = Math.max(0, correctAnswer - Math.floor(range / 4) + offset);
-      } else {
-        const offset = Math.floor(Math.random() * range) - Math.floor(range / 2);
-        wrongAnswer = Math.max(0, correctAnswer + offset);
-      }
-
-      // Round to whole numbers only
-      wrongAnswer = Math.round(wrongAnswer);
-
-      if (wrongAnswer !== correctAnswer && wrongAnswer >= 0) {
-        wrongAnswers.add(wrongAnswer);
-      }
-    }
-
-    return Array.from(wrongAnswers);
-  };
+  const generateEquation = (): Equation => EquationGenerator.applyQuestionStyle(
+    EquationGenerator.generateForTrack(track, difficulty, randomRef.current),
+    questionStyle,
+    randomRef.current
+  );
 
   // Create bubbles with answers
   const createBubbles = (equation: Equation) => {
     const settings = getDifficultySettings();
-    const answers = [equation.answer, ...generateWrongAnswers(equation.answer, settings.bubbleCount - 1)];
+    const answers = [equation.answer, ...EquationGenerator.generateDistractors(equation, settings.bubbleCount - 1, difficulty, randomRef.current)];
 
     // Shuffle answers
     for (let i = answers.length - 1; i > 0; i--) {
@@ -304,6 +260,9 @@ export const BubblePopGameScreen: React.FC<BubblePopGameScreenProps> = ({
       clearInterval(physicsIntervalRef.current);
     }
 
+    // A paused game picks the loop back up in resumeGame
+    if (isPausedRef.current) return;
+
     physicsIntervalRef.current = setInterval(() => {
       const currentBubbles = bubblesRef.current;
       if (!currentBubbles.length || !isGameActiveRef.current) return;
@@ -400,11 +359,27 @@ export const BubblePopGameScreen: React.FC<BubblePopGameScreenProps> = ({
     }
 
     // Move to next question after a short delay
+    scheduleNextQuestion(1000);
+  };
+
+  // Move on after an escape once the delay has passed; pausing holds on to whatever is left of it
+  const scheduleNextQuestion = (delay: number) => {
+    escapeDueAtRef.current = Date.now() + delay;
     escapeTimeoutRef.current = setTimeout(() => {
+      escapeTimeoutRef.current = null;
       if (!isGameActiveRef.current || !isMountedRef.current) return;
       setShowIncorrectFeedback(false);
       nextQuestion();
-    }, 1000);
+    }, delay);
+  };
+
+  // Run what follows a pop once its animation ends, or hold it until the game is resumed
+  const afterPop = (followUp: () => void) => {
+    if (isPausedRef.current) {
+      heldPopRef.current = followUp;
+    } else {
+      followUp();
+    }
   };
 
   // Handle bubble pop
@@ -439,11 +414,11 @@ export const BubblePopGameScreen: React.FC<BubblePopGameScreenProps> = ({
           duration: 200,
           useNativeDriver: true,
         }),
-      ]).start(() => {
+      ]).start(() => afterPop(() => {
         console.log('[BubblePop] Correct animation completed, calling nextQuestion');
         setShowCorrectFeedback(false);
         nextQuestion();
-      });
+      }));
     } else {
       // Wrong answer - continue playing, don't move to next question
       console.log('[BubblePop] Wrong bubble popped');
@@ -475,12 +450,12 @@ export const BubblePopGameScreen: React.FC<BubblePopGameScreenProps> = ({
           duration: 50,
           useNativeDriver: true,
         }),
-      ]).start(() => {
+      ]).start(() => afterPop(() => {
         setShowIncorrectFeedback(false);
         // Allow trying again - reset processing flag
         isProcessingAnswerRef.current = false;
         setIsProcessingAnswer(false);
-      });
+      }));
     }
   };
 
@@ -491,6 +466,10 @@ export const BubblePopGameScreen: React.FC<BubblePopGameScreenProps> = ({
     // Clear the escaped bubbles set for the new question
     escapedBubblesRef.current.clear();
     totalQuestionsRef.current += 1;
+    if (questionLimit && totalQuestionsRef.current >= questionLimit) {
+      endGame();
+      return;
+    }
     setQuestionNumber(prev => prev + 1);
     const newEquation = generateEquation();
     setCurrentEquation(newEquation);
@@ -518,21 +497,18 @@ export const BubblePopGameScreen: React.FC<BubblePopGameScreenProps> = ({
     const totalQuestions = totalQuestionsRef.current;
     const accuracy = totalQuestions > 0 ? (totalCorrectRef.current / totalQuestions) * 100 : 0;
     const finalScore = scoreRef.current;
+    const playedSeconds = Math.round((Date.now() - startedAtRef.current - pausedForRef.current) / 1000);
 
     console.log('[BubblePop] Game ending with', { finalScore, totalQuestions, accuracy });
     setTimeout(() => {
       console.log('[BubblePop] Calling onGameComplete');
-      onGameComplete(finalScore, totalQuestions, accuracy);
+      onGameComplete(finalScore, totalQuestions, accuracy, totalCorrectRef.current, playedSeconds);
     }, 500);
   }, [onGameComplete]);
 
-  // Initialize game
-  useEffect(() => {
-    const equation = generateEquation();
-    setCurrentEquation(equation);
-    createBubbles(equation);
-
-    // Start timer
+  // Start timer (fixed-question rounds have no clock)
+  const startTimer = () => {
+    if (questionLimit) return;
     timerRef.current = setInterval(() => {
       setTimeLeft(prev => {
         if (prev <= 1) {
@@ -542,6 +518,15 @@ export const BubblePopGameScreen: React.FC<BubblePopGameScreenProps> = ({
         return prev - 1;
       });
     }, 1000);
+  };
+
+  // Initialize game
+  useEffect(() => {
+    const equation = generateEquation();
+    setCurrentEquation(equation);
+    createBubbles(equation);
+
+    startTimer();
 
     return () => {
       isMountedRef.current = false;
@@ -557,6 +542,55 @@ export const BubblePopGameScreen: React.FC<BubblePopGameScreenProps> = ({
     };
   }, []);
 
+  // Pausing stops the clock, the physics loop and any pending move to the next question
+  const pauseGame = () => {
+    if (!isGameActiveRef.current || isPausedRef.current) return;
+    isPausedRef.current = true;
+    pausedAtRef.current = Date.now();
+    setIsPaused(true);
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+    if (physicsIntervalRef.current) {
+      clearInterval(physicsIntervalRef.current);
+      physicsIntervalRef.current = null;
+    }
+    if (escapeTimeoutRef.current) {
+      clearTimeout(escapeTimeoutRef.current);
+      escapeTimeoutRef.current = null;
+      escapeRemainingRef.current = Math.max(0, escapeDueAtRef.current - Date.now());
+    }
+  };
+
+  const resumeGame = () => {
+    if (!isGameActiveRef.current || !isPausedRef.current) return;
+    isPausedRef.current = false;
+    pausedForRef.current += Date.now() - pausedAtRef.current;
+    setIsPaused(false);
+    startTimer();
+    startPhysicsSimulation();
+    if (escapeRemainingRef.current !== null) {
+      scheduleNextQuestion(escapeRemainingRef.current);
+      escapeRemainingRef.current = null;
+    }
+    if (heldPopRef.current) {
+      const followUp = heldPopRef.current;
+      heldPopRef.current = null;
+      followUp();
+    }
+  };
+
+  // Pause when the app goes to the background so the round doesn't run on unseen
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', nextState => {
+      if (nextState !== 'active') {
+        pauseGame();
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+
   const handleQuit = () => {
     Alert.alert(
       'Quit Game',
@@ -610,9 +644,15 @@ export const BubblePopGameScreen: React.FC<BubblePopGameScreenProps> = ({
           />
 
           <IslandCard variant="floating" padding={12} style={styles.timerCard}>
-            <Text style={[styles.timerText, { color: timeLeft <= 10 ? '#FF4757' : theme.colors.text }]}>
-              ⏱️ {timeLeft}s
-            </Text>
+            {questionLimit ? (
+              <Text style={[styles.timerText, { color: theme.colors.text }]}>
+                🫧 {Math.min(questionNumber, questionLimit)}/{questionLimit}
+              </Text>
+            ) : (
+              <Text style={[styles.timerText, { color: timeLeft <= 10 ? '#FF4757' : theme.colors.text }]}>
+                ⏱️ {timeLeft}s
+              </Text>
+            )}
           </IslandCard>
 
           <IslandCard variant="floating" padding={12} style={styles.scoreCard}>
@@ -620,14 +660,21 @@ export const BubblePopGameScreen: React.FC<BubblePopGameScreenProps> = ({
               🏆 {score}
             </Text>
           </IslandCard>
+
+          <IslandButton
+            icon="⏸"
+            size="small"
+            variant="secondary"
+            onPress={pauseGame}
+          />
         </View>
 
         {/* Equation Display */}
         <View style={styles.equationContainer}>
           <IslandCard variant="floating" padding={20}>
             <Text style={styles.equationLabel}>Solve:</Text>
-            <Text style={[styles.equation, { color: theme.colors.text }]}>
-              {currentEquation?.question} = ?
+            <Text style={[styles.equation, { color: theme.colors.text }]} numberOfLines={1} adjustsFontSizeToFit>
+              {currentEquation?.question}
             </Text>
             <Text style={[styles.questionCounter, { color: theme.colors.textSecondary }]}>
               Question #{questionNumber}
@@ -696,6 +743,20 @@ export const BubblePopGameScreen: React.FC<BubblePopGameScreenProps> = ({
             <Text style={styles.incorrectFeedback}>❌ Try Again!</Text>
           </View>
         )}
+
+        {isPaused && (
+          <View style={styles.pauseOverlay}>
+            <IslandCard variant="elevated" padding={24} style={styles.pauseCard}>
+              <Text style={[styles.pauseTitle, { color: theme.colors.text }]}>⏸ Paused</Text>
+              <TouchableOpacity style={styles.pauseResumeButton} onPress={resumeGame}>
+                <Text style={styles.pauseButtonText}>▶ Resume</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={[styles.pauseResumeButton, styles.pauseQuitButton]} onPress={handleQuit}>
+                <Text style={styles.pauseButtonText}>✕ Quit</Text>
+              </TouchableOpacity>
+            </IslandCard>
+          </View>
+        )}
       </SafeAreaView>
     </BackgroundWrapper>
   );
@@ -796,6 +857,38 @@ const styles = StyleSheet.create({
     textShadowOffset: { width: 1, height: 1 },
     textShadowRadius: 3,
   },
+  pauseOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: '#000',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  pauseCard: {
+    alignItems: 'center',
+    minWidth: 220,
+  },
+  pauseTitle: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    marginBottom: 20,
+  },
+  pauseResumeButton: {
+    backgroundColor: '#4CAF50',
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    marginTop: 10,
+    alignSelf: 'stretch',
+    alignItems: 'center',
+  },
+  pauseQuitButton: {
+    backgroundColor: '#FF4757',
+  },
+  pauseButtonText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
   feedbackOverlay: {
     position: 'absolute',
     top: '35%',
@@ -3,9 +3,13 @@ import { View, Text, Image, StyleSheet, Pressable, Animated } from 'react-native
 
 interface MainMenuIslandsProps {
   onClassicMode: () => void | Promise<void>;
+  onSurvivalMode: () => void | Promise<void>;
+  onZenMode: () => void | Promise<void>;
   onTimesTableMode: () => void | Promise<void>;
   onBubblePopMode: () => void | Promise<void>;
   onBubblePlusMode: () => void | Promise<void>;
+  onReviewMode: () => void | Promise<void>;
+  onPracticeSets: () => void | Promise<void>;
   onLocalPvPMode: () => void | Promise<void>;
   onOnlinePvPMode: () => void | Promise<void>;
   onShop: () => void | Promise<void>;
@@ -13,6 +17,7 @@ interface MainMenuIslandsProps {
   onProfile: () => void | Promise<void>;
   onSettings: () => void | Promise<void>;
   playerName?: string | undefined;
+  reviewDueCount?: number; // Missed facts due for review, shown as a badge
 }
 
 const PopImageButton: React.FC<{ source: any; size?: number; onPress: () => void; testID?: string }>
@@ -129,15 +134,20 @@ const PopEmojiButton: React.FC<{ emoji: string; size?: number; onPress: () => vo
 
 export const MainMenuIslands: React.FC<MainMenuIslandsProps> = ({
   onClassicMode,
+  onSurvivalMode,
+  onZenMode,
   onTimesTableMode,
   onBubblePopMode,
   onBubblePlusMode,
+  onReviewMode,
+  onPracticeSets,
   onLocalPvPMode,
   onOnlinePvPMode,
   onShop,
   onFriends,
   onProfile,
-  onSettings
+  onSettings,
+  reviewDueCount = 0
 }) => {
   const [playMenuExpanded, setPlayMenuExpanded] = useState(false);
   const scaffoldAnim = useRef(new Animated.Value(0)).current;
@@ -239,12 +249,28 @@ export const MainMenuIslands: React.FC<MainMenuIslandsProps> = ({
           ]}
           pointerEvents={playMenuExpanded ? 'auto' : 'none'}
         >
-          <PopImageButton 
-            source={require('../assets/Classic.png')} 
-            size={80}
-            onPress={() => handlePlayModeSelect(onClassicMode)} 
-            testID="menu-classic" 
-          />
+          <View style={{ flexDirection: 'row', alignItems: 'center', gap: 10 }}>
+            <PopImageButton 
+              source={require('../assets/Classic.png')} 
+              size={80}
+              onPress={() => handlePlayModeSelect(onClassicMode)} 
+              testID="menu-classic" 
+            />
+            <PopEmojiButton
+              emoji="❤️"
+              size={68}
+              backgroundColor="#E57373"
+              onPress={() => handlePlayModeSelect(onSurvivalMode)}
+              testID="menu-survival"
+            />
+            <PopEmojiButton
+              emoji="🧘"
+              size={68}
+              backgroundColor="#81C784"
+              onPress={() => handlePlayModeSelect(onZenMode)}
+              testID="menu-zen"
+            />
+          </View>
         </Animated.View>
 
         <Animated.View
@@ -278,18 +304,39 @@ export const MainMenuIslands: React.FC<MainMenuIslandsProps> = ({
           <View style={{ flexDirection: 'row', gap: 10 }}>
             <PopEmojiButton
               emoji="🫧"
-              size={80}
+              size={68}
               backgroundColor="#4ECDC4"
               onPress={() => handlePlayModeSelect(onBubblePopMode)}
               testID="menu-bubblepop"
             />
             <PopEmojiButton
               emoji="⚡"
-              size={80}
+              size={68}
               backgroundColor="#FF6B9D"
               onPress={() => handlePlayModeSelect(onBubblePlusMode)}
               testID="menu-bubbleplus"
             />
+            <View>
+              <PopEmojiButton
+                emoji="📚"
+                size={68}
+                backgroundColor="#9575CD"
+                onPress={() => handlePlayModeSelect(onReviewMode)}
+                testID="menu-review"
+              />
+              {reviewDueCount > 0 && (
+                <View style={styles.badge} pointerEvents="none">
+                  <Text style={styles.badgeText}>{reviewDueCount > 99 ? '99+' : reviewDueCount}</Text>
+                </View>
+              )}
+            </View>
+            <PopEmojiButton
+              emoji="📝"
+              size={68}
+              backgroundColor="#FFB74D"
+              onPress={() => handlePlayModeSelect(onPracticeSets)}
+              testID="menu-practicesets"
+            />
           </View>
         </Animated.View>
 
@@ -400,6 +447,23 @@ const styles = StyleSheet.create({
   pressed: {
     opacity: 0.9,
   },
+  badge: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    minWidth: 24,
+    height: 24,
+    borderRadius: 12,
+    paddingHorizontal: 6,
+    backgroundColor: '#F44336',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  badgeText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: '700',
+  },
 });
 
 export default MainMenuIslands;
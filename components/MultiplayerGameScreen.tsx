@@ -16,10 +16,11 @@ import { PlayerStorageService } from '../services/PlayerStorageService';
 import { PlayerProfile } from '../types/Player';
 import { useBackground } from '../hooks/useBackground';
 import { BackgroundWrapper } from './BackgroundWrapper';
+import { EquationGenerator } from '../utils/EquationGenerator';
+import { AnswerChecker } from '../utils/AnswerChecker';
+import { Difficulty, Equation } from '../types/Equation';
 
-interface Equation {
-  question: string;
-  answer: number;
+interface MultiplayerEquation extends Equation {
   questionId: string;
 }
 
@@ -35,7 +36,7 @@ interface MultiplayerGameScreenProps {
   playerProfile: PlayerProfile;
   onGameEnd: (results: any) => void;
   onBackToMenu: () => void;
-  difficulty: 'easy' | 'medium' | 'hard';
+  difficulty: Difficulty;
 }
 
 export const MultiplayerGameScreen: React.FC<MultiplayerGameScreenProps> = ({
@@ -53,7 +54,7 @@ export const MultiplayerGameScreen: React.FC<MultiplayerGameScreenProps> = ({
   }
   const { backgroundColors, backgroundType, animationType } = useBackground();
   const [gameState, setGameState] = useState<'waiting' | 'playing' | 'finished'>('waiting');
-  const [currentEquation, setCurrentEquation] = useState<Equation | null>(null);
+  const [currentEquation, setCurrentEquation] = useState<MultiplayerEquation | null>(null);
   const [players, setPlayers] = useState<GamePlayer[]>([]);
   const [myScore, setMyScore] = useState(0);
   const [currentAnswer, setCurrentAnswer] = useState('');
@@ -165,62 +166,10 @@ export const MultiplayerGameScreen: React.FC<MultiplayerGameScreenProps> = ({
     setPlayers(prev => prev.filter(p => p.id !== player.id));
   };
 
-  const generateEquation = useCallback((): Equation => {
-    let num1: number, num2: number, operation: string, answer: number;
-
-    switch (difficulty) {
-      case 'easy':
-        num1 = Math.floor(Math.random() * 10) + 1;
-        num2 = Math.floor(Math.random() * 10) + 1;
-        if (Math.random() > 0.5) {
-          operation = '+';
-          answer = num1 + num2;
-        } else {
-          operation = '-';
-          if (num1 < num2) [num1, num2] = [num2, num1];
-          answer = num1 - num2;
-        }
-        break;
-      case 'medium':
-        num1 = Math.floor(Math.random() * 50) + 1;
-        num2 = Math.floor(Math.random() * 50) + 1;
-        const ops = ['+', '-', '×'];
-        operation = ops[Math.floor(Math.random() * ops.length)];
-        if (operation === '+') answer = num1 + num2;
-        else if (operation === '-') {
-          if (num1 < num2) [num1, num2] = [num2, num1];
-          answer = num1 - num2;
-        } else {
-          num1 = Math.floor(Math.random() * 12) + 1;
-          num2 = Math.floor(Math.random() * 12) + 1;
-          answer = num1 * num2;
-        }
-        break;
-      case 'hard':
-        num1 = Math.floor(Math.random() * 100) + 1;
-        num2 = Math.floor(Math.random() * 100) + 1;
-        const hardOps = ['+', '-', '×', '÷'];
-        operation = hardOps[Math.floor(Math.random() * hardOps.length)];
-        if (operation === '+') answer = num1 + num2;
-        else if (operation === '-') {
-          if (num1 < num2) [num1, num2] = [num2, num1];
-          answer = num1 - num2;
-        } else if (operation === '×') {
-          num1 = Math.floor(Math.random() * 25) + 1;
-          num2 = Math.floor(Math.random() * 25) + 1;
-          answer = num1 * num2;
-        } else {
-          answer = Math.floor(Math.random() * 20) + 1;
-          num2 = Math.floor(Math.random() * 12) + 1;
-          num1 = answer * num2;
-        }
-        break;
-    }
-
+  const generateEquation = useCallback((): MultiplayerEquation => {
     const questionId = `q_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`;
     return {
-      question: `${num1} ${operation} ${num2} = ?`,
-      answer,
+      ...EquationGenerator.generate(difficulty),
       questionId,
     };
   }, [difficulty]);
@@ -242,6 +191,9 @@ export const MultiplayerGameScreen: React.FC<MultiplayerGameScreenProps> = ({
       question: equation.question,
       questionId: equation.questionId,
       answer: equation.answer,
+      num1: equation.num1,
+      num2: equation.num2,
+      operation: equation.operation,
       timeLimit: 30,
     });
 
@@ -256,8 +208,7 @@ export const MultiplayerGameScreen: React.FC<MultiplayerGameScreenProps> = ({
   const handleNewQuestion = (data: any) => {
     if (data.questionId !== currentEquation?.questionId) {
       setCurrentEquation({
-        question: data.question,
-        answer: data.answer,
+        ...EquationGenerator.create(data.num1, data.operation, data.num2),
         questionId: data.questionId,
       });
       setQuestionStartTime(new Date());
@@ -298,8 +249,7 @@ export const MultiplayerGameScreen: React.FC<MultiplayerGameScreenProps> = ({
   const submitAnswer = (answer: string) => {
     if (!answer.trim() || !currentEquation || !questionStartTime) return;
     
-    const numAnswer = parseInt(answer);
-    const correct = numAnswer === currentEquation.answer;
+    const correct = AnswerChecker.isCorrect(currentEquation, answer);
     const timeSpent = (Date.now() - questionStartTime.getTime()) / 1000;
     
     setIsCorrect(correct);
@@ -355,6 +305,9 @@ export const MultiplayerGameScreen: React.FC<MultiplayerGameScreenProps> = ({
         question: equation.question,
         questionId: equation.questionId,
         answer: equation.answer,
+        num1: equation.num1,
+        num2: equation.num2,
+        operation: equation.operation,
         timeLimit: 30,
       });
     }
@@ -0,0 +1,152 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ViewStyle } from 'react-native';
+import { PlayerSettings } from '../types/Player';
+
+interface NumericKeypadProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: (value: string) => void;
+  layout: PlayerSettings['keyboardLayout'];
+  autoSubmit: boolean;
+  answerLength?: number; // Length of the expected answer; auto-submit waits for this many characters
+  extraKeys?: string[]; // '±', '.' and '/' for answers that are not whole numbers
+  maxLength?: number;
+  disabled?: boolean;
+  style?: ViewStyle;
+}
+
+// Calculator puts 7-8-9 on top, phone puts 1-2-3 on top
+const DIGIT_ROWS: Record<PlayerSettings['keyboardLayout'], string[][]> = {
+  calculator: [['7', '8', '9'], ['4', '5', '6'], ['1', '2', '3']],
+  phone: [['1', '2', '3'], ['4', '5', '6'], ['7', '8', '9']],
+};
+
+/**
+ * NumericKeypad - The answer keypad shared by every typed-answer game screen.
+ * Follows the player's keyboard layout and, with auto-submit on, submits as soon as
+ * the answer is as long as the expected one.
+ */
+export const NumericKeypad: React.FC<NumericKeypadProps> = ({
+  value,
+  onChange,
+  onSubmit,
+  layout,
+  autoSubmit,
+  answerLength,
+  extraKeys = [],
+  maxLength = 8,
+  disabled = false,
+  style,
+}) => {
+  const keyRows = [
+    ...DIGIT_ROWS[layout],
+    ...(extraKeys.length > 0 ? [extraKeys] : []),
+    ['Clear', '0', 'Enter'],
+  ];
+
+  const handleKey = (key: string) => {
+    if (disabled) return;
+
+    if (key === 'Enter') {
+      if (value) onSubmit(value);
+      return;
+    }
+
+    let next: string;
+    if (key === 'Clear') {
+      next = value.slice(0, -1);
+    } else if (key === '±') {
+      next = value.startsWith('-') ? value.slice(1) : `-${value}`;
+    } else if (value.length >= maxLength) {
+      return;
+    } else {
+      next = value + key;
+    }
+
+    onChange(next);
+    // Only typing can complete an answer; deleting or flipping the sign never submits
+    if (autoSubmit && answerLength && key !== 'Clear' && key !== '±' && next.length === answerLength) {
+      onSubmit(next);
+    }
+  };
+
+  return (
+    <View style={[styles.keypad, style]}>
+      {keyRows.map((row, rowIndex) => (
+        <View key={rowIndex} style={styles.keypadRow}>
+          {row.map((key) => (
+            <TouchableOpacity
+              key={key}
+              style={[
+                styles.key,
+                key === 'Clear' && styles.clearKey,
+                key === 'Enter' && styles.enterKey,
+              ]}
+              onPress={() => handleKey(key)}
+              disabled={disabled}
+            >
+              <Text style={[
+                styles.keyText,
+                key === 'Clear' && styles.clearKeyText,
+                key === 'Enter' && styles.enterKeyText,
+              ]}>
+                {key === 'Clear' ? '⌫' : key === 'Enter' ? '✓' : key}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  keypad: {
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingBottom: 10,
+    backgroundColor: 'transparent', // Let background show through
+  },
+  keypadRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginBottom: 8,
+  },
+  key: {
+    width: 70,
+    height: 55,
+    backgroundColor: '#000000', // Black background
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 8,
+    marginHorizontal: 6,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    borderWidth: 1.5,
+    borderColor: '#ffffff', // White outline
+  },
+  keyText: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#ffffff', // White text
+  },
+  clearKey: {
+    borderColor: '#ff5722', // Red outline for clear
+    borderWidth: 2,
+  },
+  clearKeyText: {
+    color: '#ff5722', // Red text for clear
+    fontSize: 18,
+  },
+  enterKey: {
+    borderColor: '#4caf50', // Green outline for enter
+    borderWidth: 2,
+  },
+  enterKeyText: {
+    color: '#4caf50', // Green text for enter
+    fontSize: 18,
+  },
+});
@@ -11,15 +11,20 @@ import {
 } from 'react-native';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 import { PlayerProfile } from '../types/Player';
-import { socketMultiplayerService } from '../services/socketMultiplayerService';
+import { socketMultiplayerService, NextQuestionEvent } from '../services/socketMultiplayerService';
 import { authService } from '../services/AuthService';
 import { useBackground } from '../hooks/useBackground';
 import { useTheme } from '../contexts/ThemeContext';
 import { BackgroundWrapper } from './BackgroundWrapper';
+import { NumericKeypad } from './NumericKeypad';
+import { Difficulty, QuestionTrack } from '../types/Equation';
+import { AnswerChecker } from '../utils/AnswerChecker';
+import { Fractions } from '../utils/Fractions';
 
 interface OnlineMultiplayerScreenProps {
   playerProfile: PlayerProfile;
-  difficulty: 'easy' | 'medium' | 'hard';
+  difficulty: Difficulty;
+  track?: QuestionTrack; // 'whole' or 'expressions'; the server generates the questions
   onGameEnd: (results: any) => void;
   onBackToMenu: () => void;
   backgroundColors?: string[];
@@ -32,6 +37,7 @@ type GameState = 'connecting' | 'matchmaking' | 'ready' | 'playing' | 'finished'
 export const OnlineMultiplayerScreen: React.FC<OnlineMultiplayerScreenProps> = ({
   playerProfile,
   difficulty,
+  track = 'whole',
   onGameEnd,
   onBackToMenu,
   backgroundColors,
@@ -65,10 +71,14 @@ export const OnlineMultiplayerScreen: React.FC<OnlineMultiplayerScreenProps> = (
   const gameEndedRef = React.useRef(false);
   
   // Game logic state
-  const [currentEquation, setCurrentEquation] = useState<{ question: string; answer: number } | null>(null);
+  const [currentQuestion, setCurrentQuestion] = useState<NextQuestionEvent | null>(null);
   const [currentAnswer, setCurrentAnswer] = useState('');
   const [questionNumber, setQuestionNumber] = useState(0);
-  const [totalQuestions] = useState(10);
+  const [totalQuestions, setTotalQuestions] = useState(10);
+  const totalQuestionsRef = React.useRef(10); // For the socket handlers, which are set up once
+  // Set from submitting an answer until the server sends the next question, so one question is never answered twice
+  const [isAnswerPending, setIsAnswerPending] = useState(false);
+  const answerPendingRef = React.useRef(false);
   const [timeLeft, setTimeLeft] = useState(120); // 2 minutes
   const [questionStartTime, setQuestionStartTime] = useState(Date.now());
   const [gameStartTime, setGameStartTime] = useState(Date.now());
@@ -103,25 +113,12 @@ export const OnlineMultiplayerScreen: React.FC<OnlineMultiplayerScreenProps> = (
     if (gameState !== 'playing') return;
     
     const timer = setInterval(() => {
-      setTimeLeft((prev) => {
-        if (prev <= 1) {
-          // Time's up! Finish with current score
-          const totalTime = (Date.now() - gameStartTime) / 1000;
-          socketMultiplayerService.submitAnswer(
-            0, 
-            false, 
-            totalTime, 
-            currentEquation?.question || 'N/A', 
-            currentEquation?.answer || 0
-          );
-          return 0;
-        }
-        return prev - 1;
-      });
+      // The server ends the match when time runs out
+      setTimeLeft((prev) => (prev <= 1 ? 0 : prev - 1));
     }, 1000);
 
     return () => clearInterval(timer);
-  }, [gameState, gameStartTime]);
+  }, [gameState]);
 
   const initializeConnection = async () => {
     try {
@@ -147,7 +144,28 @@ export const OnlineMultiplayerScreen: React.FC<OnlineMultiplayerScreenProps> = (
 
       socketMultiplayerService.onGameStart = (data) => {
         console.log('Game started:', data);
-        startGame(); // This will set state to playing and generate first question
+        if (data.totalQuestions) {
+          updateTotalQuestions(data.totalQuestions);
+        }
+        startGame(); // The server sends the first question right after game-start
+      };
+
+      socketMultiplayerService.onNextQuestion = (data) => {
+        updateTotalQuestions(data.total);
+        answerPendingRef.current = false;
+        setIsAnswerPending(false);
+        setCurrentQuestion(data);
+        setQuestionNumber(data.index + 1);
+        setCurrentAnswer('');
+        setQuestionStartTime(Date.now());
+      };
+
+      socketMultiplayerService.onAnswerResult = (data) => {
+        if (data.correct) {
+          setShowCorrectFeedback(true);
+        } else {
+          setShowIncorrectFeedback(true);
+        }
       };
 
       socketMultiplayerService.onScoreUpdate = (data) => {
@@ -163,7 +181,7 @@ export const OnlineMultiplayerScreen: React.FC<OnlineMultiplayerScreenProps> = (
       socketMultiplayerService.onPlayerCompleted = (data) => {
         console.log('[OnlineMultiplayer] Player completed:', data.playerId, 'My ID:', playerProfile.id);
         if (data.playerId !== playerProfile.id) {
-          setOpponentQuestionsCompleted(10);
+          setOpponentQuestionsCompleted(totalQuestionsRef.current);
         }
       };
 
@@ -214,7 +232,7 @@ export const OnlineMultiplayerScreen: React.FC<OnlineMultiplayerScreenProps> = (
           mode: 'online-pvp' as const,
           difficulty,
           score: myFinalScore,
-          totalQuestions,
+          totalQuestions: totalQuestionsRef.current,
           winner: isTie ? 'Tie' : (iWon ? myName : opponentName),
           players: [
             { id: playerProfile.id, name: myName, score: myFinalScore, isWinner: isTie ? false : iWon },
@@ -276,7 +294,7 @@ export const OnlineMultiplayerScreen: React.FC<OnlineMultiplayerScreenProps> = (
       setStatusMessage('Finding opponent...');
       
       // Join matchmaking queue
-      socketMultiplayerService.joinMatchmaking(difficulty);
+      socketMultiplayerService.joinMatchmaking(difficulty, track);
       
     } catch (error) {
       console.error('Connection error:', error);
@@ -295,134 +313,39 @@ export const OnlineMultiplayerScreen: React.FC<OnlineMultiplayerScreenProps> = (
     setGameStartTime(Date.now());
     setMyQuestionsCompleted(0);
     setOpponentQuestionsCompleted(0);
-    generateNewEquation();
+    setCurrentQuestion(null);
   };
 
-  // Generate equation based on difficulty
-  const generateNewEquation = () => {
-    let num1: number, num2: number, operation: string, answer: number;
-
-    switch (difficulty) {
-      case 'easy':
-        num1 = Math.floor(Math.random() * 10) + 1;
-        num2 = Math.floor(Math.random() * 10) + 1;
-        if (Math.random() > 0.5) {
-          operation = '+';
-          answer = num1 + num2;
-        } else {
-          operation = '-';
-          if (num1 < num2) [num1, num2] = [num2, num1];
-          answer = num1 - num2;
-        }
-        break;
-
-      case 'medium':
-        num1 = Math.floor(Math.random() * 20) + 1;
-        num2 = Math.floor(Math.random() * 20) + 1;
-        const medOp = Math.floor(Math.random() * 3);
-        if (medOp === 0) {
-          operation = '+';
-          answer = num1 + num2;
-        } else if (medOp === 1) {
-          operation = '-';
-          if (num1 < num2) [num1, num2] = [num2, num1];
-          answer = num1 - num2;
-        } else {
-          operation = '×';
-          num1 = Math.floor(Math.random() * 12) + 1;
-          num2 = Math.floor(Math.random() * 12) + 1;
-          answer = num1 * num2;
-        }
-        break;
-
-      case 'hard':
-        num1 = Math.floor(Math.random() * 50) + 10;
-        num2 = Math.floor(Math.random() * 50) + 10;
-        const hardOp = Math.floor(Math.random() * 4);
-        if (hardOp === 0) {
-          operation = '+';
-          answer = num1 + num2;
-        } else if (hardOp === 1) {
-          operation = '-';
-          if (num1 < num2) [num1, num2] = [num2, num1];
-          answer = num1 - num2;
-        } else if (hardOp === 2) {
-          operation = '×';
-          num1 = Math.floor(Math.random() * 15) + 5;
-          num2 = Math.floor(Math.random() * 15) + 5;
-          answer = num1 * num2;
-        } else {
-          operation = '÷';
-          answer = Math.floor(Math.random() * 12) + 2;
-          num2 = Math.floor(Math.random() * 12) + 2;
-          num1 = answer * num2;
-        }
-        break;
-
-      default:
-        num1 = 1;
-        num2 = 1;
-        operation = '+';
-        answer = 2;
-    }
-
-    setCurrentEquation({
-      question: `${num1} ${operation} ${num2} = ?`,
-      answer,
-    });
-    setCurrentAnswer('');
-    setQuestionStartTime(Date.now());
+  // The match length comes from the server
+  const updateTotalQuestions = (total: number) => {
+    totalQuestionsRef.current = total;
+    setTotalQuestions(total);
   };
 
   // Handle answer submission
-  const handleSubmitAnswer = () => {
-    if (!currentEquation || currentAnswer === '') return;
+  const handleSubmitAnswer = (answer: string) => {
+    if (!currentQuestion || answer === '' || answerPendingRef.current) return;
 
-    const userAnswer = parseInt(currentAnswer, 10);
-    const correct = userAnswer === currentEquation.answer;
+    const parsed = AnswerChecker.parse(answer);
+    if (!parsed) return;
+    const userAnswer = Fractions.toNumber(parsed);
     const timeSpent = (Date.now() - questionStartTime) / 1000;
 
-    // Submit to server with question details
-    socketMultiplayerService.submitAnswer(
-      userAnswer, 
-      correct, 
-      timeSpent, 
-      currentEquation.question, 
-      currentEquation.answer
-    );
+    // The server grades the answer and broadcasts the score update,
+    // then sends the next question; input stays locked until it arrives
+    answerPendingRef.current = true;
+    setIsAnswerPending(true);
+    socketMultiplayerService.submitAnswer(currentQuestion.index, userAnswer, timeSpent);
+    setCurrentAnswer('');
 
-    // Don't update local score - let server broadcast the score update
-    // This prevents double-counting when server broadcasts to all players
-
-    // Move to next question
-    if (questionNumber < totalQuestions) {
-      setQuestionNumber(prev => prev + 1);
-      generateNewEquation();
-    } else {
-      // Completed all 10 questions
-      const completionTime = (Date.now() - gameStartTime) / 1000; // Total time in seconds
-      setMyQuestionsCompleted(10);
+    if (currentQuestion.index + 1 >= currentQuestion.total) {
+      // Completed all questions; the server records the completion time
+      setMyQuestionsCompleted(currentQuestion.total);
       setWaitingForOpponent(true); // Show waiting message
-      // Send completion time to server
-      socketMultiplayerService.sendCompletionTime(completionTime);
-    }
-  };
-
-  // Handle keypad input
-  const handleNumberPress = (num: string) => {
-    if (currentAnswer.length < 6) {
-      setCurrentAnswer(prev => prev + num);
+      setCurrentQuestion(null);
     }
   };
 
-  const handleDelete = () => {
-    setCurrentAnswer(prev => prev.slice(0, -1));
-  };
-
-  const handleClear = () => {
-    setCurrentAnswer('');
-  };
-
   const renderConnectionScreen = () => (
     <View style={styles.centerContent}>
       <ActivityIndicator size="large" color="#4CAF50" />
@@ -517,9 +440,9 @@ export const OnlineMultiplayerScreen: React.FC<OnlineMultiplayerScreenProps> = (
       </View>
 
       {/* Equation Display */}
-      {currentEquation && (
+      {currentQuestion && (
         <View style={styles.equationContainer}>
-          <Text style={styles.equationText}>{currentEquation.question}</Text>
+          <Text style={styles.equationText} numberOfLines={1} adjustsFontSizeToFit>{currentQuestion.question}</Text>
         </View>
       )}
 
@@ -529,44 +452,17 @@ export const OnlineMultiplayerScreen: React.FC<OnlineMultiplayerScreenProps> = (
       </View>
 
       {/* Keypad */}
-      <View style={styles.keypadContainer}>
-        {[['1', '2', '3'], ['4', '5', '6'], ['7', '8', '9']].map((row, rowIndex) => (
-          <View key={rowIndex} style={styles.keypadRow}>
-            {row.map((key) => (
-              <TouchableOpacity
-                key={key}
-                style={styles.keypadButton}
-                onPress={() => handleNumberPress(key)}
-              >
-                <Text style={styles.keypadButtonText}>{key}</Text>
-              </TouchableOpacity>
-            ))}
-          </View>
-        ))}
-        
-        {/* Bottom Row: Delete, 0, Submit */}
-        <View style={styles.keypadRow}>
-          <TouchableOpacity
-            style={[styles.keypadButton, styles.keypadSpecialButton]}
-            onPress={handleDelete}
-          >
-            <Text style={styles.keypadSpecialButtonText}>⌫</Text>
-          </TouchableOpacity>
-          <TouchableOpacity
-            style={styles.keypadButton}
-            onPress={() => handleNumberPress('0')}
-          >
-            <Text style={styles.keypadButtonText}>0</Text>
-          </TouchableOpacity>
-          <TouchableOpacity
-            style={[styles.submitButton, !currentAnswer && styles.submitButtonDisabled]}
-            onPress={handleSubmitAnswer}
-            disabled={!currentAnswer}
-          >
-            <Text style={styles.submitButtonText}>✓</Text>
-          </TouchableOpacity>
-        </View>
-      </View>
+      <NumericKeypad
+        value={currentAnswer}
+        onChange={setCurrentAnswer}
+        onSubmit={handleSubmitAnswer}
+        layout={playerProfile.settings.keyboardLayout}
+        autoSubmit={playerProfile.settings.autoSubmit}
+        answerLength={currentQuestion?.answerLength}
+        maxLength={6}
+        disabled={!currentQuestion || isAnswerPending}
+        style={styles.keypad}
+      />
     </View>
     );
   };
@@ -871,63 +767,9 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#333',
   },
-  keypadContainer: {
+  keypad: {
     marginTop: 5,
-  },
-  keypadRow: {
-    flexDirection: 'row',
-    justifyContent: 'center',
-    marginBottom: 8,
-  },
-  keypadButton: {
-    backgroundColor: 'rgba(255,255,255,0.9)',
-    width: Platform.OS === 'ios' ? 55 : 60,
-    height: Platform.OS === 'ios' ? 55 : 60,
-    borderRadius: Platform.OS === 'ios' ? 27.5 : 30,
-    justifyContent: 'center',
-    alignItems: 'center',
-    marginHorizontal: Platform.OS === 'ios' ? 5 : 6,
-    elevation: 3,
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.25,
-    shadowRadius: 3.84,
-  },
-  keypadSpecialButton: {
-    backgroundColor: 'rgba(255,100,100,0.9)',
-  },
-  keypadButtonText: {
-    fontSize: 24,
-    fontWeight: 'bold',
-    color: '#333',
-  },
-  keypadSpecialButtonText: {
-    fontSize: 18,
-    fontWeight: 'bold',
-    color: '#fff',
-  },
-  submitButton: {
-    backgroundColor: '#4CAF50',
-    width: Platform.OS === 'ios' ? 55 : 60,
-    height: Platform.OS === 'ios' ? 55 : 60,
-    borderRadius: Platform.OS === 'ios' ? 27.5 : 30,
-    justifyContent: 'center',
-    alignItems: 'center',
-    marginHorizontal: Platform.OS === 'ios' ? 5 : 6,
-    elevation: 3,
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.25,
-    shadowRadius: 3.84,
-  },
-  submitButtonDisabled: {
-    backgroundColor: '#666',
-    opacity: 0.5,
-  },
-  submitButtonText: {
-    fontSize: 28,
-    fontWeight: 'bold',
-    color: '#fff',
+    paddingBottom: 0,
   },
   finalScoresContainer: {
     flexDirection: 'row',
@@ -15,7 +15,7 @@ import {
 
 import { LinearGradient } from 'expo-linear-gradient';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
-import { PlayerProfile, Achievement, GameResult } from '../types/Player';
+import { PlayerProfile, Achievement, GameResult, GameResultMode } from '../types/Player';
 import { PlayerStorageService } from '../services/PlayerStorageService';
 import { useTheme } from '../contexts/ThemeContext';
 import { StorageResetService } from '../services/StorageResetService';
@@ -36,6 +36,20 @@ const PROFILE_ICON_IMAGES: { [key: string]: any } = {
   'InChangeWeTrust.png': require('../assets/InChangeWeTrust.png'),
 };
 
+const MODE_LABELS: Record<GameResultMode, string> = {
+  classic: '🎯 Classic',
+  times_tables: '🔢 Times Tables',
+  survival: '❤️ Survival',
+  review: '📚 Review',
+  practice: '📝 Practice',
+  bubble_pop: '🫧 Bubble Pop',
+  bubble_plus: '⚡ Bubble Plus',
+  bot_battle: '🤖 Bot Battle',
+  local_1v1: '👥 Local 1v1',
+  online: '🌐 Online',
+};
+const DIFFICULTY_FILTERS: (GameResult['difficulty'] | 'all')[] = ['all', 'easy', 'medium', 'hard'];
+
 interface Props {
   player: PlayerProfile;
   onPlayerUpdated: (player: PlayerProfile) => void;
@@ -87,6 +101,9 @@ export default function PlayerProfileScreen({ player, onPlayerUpdated, onClose,
   const { theme, toggleTheme, isDarkMode } = useTheme();
   const [activeTab, setActiveTab] = useState<TabType>(initialTab);
   const [gameHistory, setGameHistory] = useState<GameResult[]>([]);
+  const [expandedGame, setExpandedGame] = useState<number | null>(null);
+  const [historyMode, setHistoryMode] = useState<GameResultMode | 'all'>('all');
+  const [historyDifficulty, setHistoryDifficulty] = useState<GameResult['difficulty'] | 'all'>('all');
   const [loading, setLoading] = useState(false);
   const [showUsernameModal, setShowUsernameModal] = useState(false);
   const [newUsername, setNewUsername] = useState('');
@@ -154,7 +171,7 @@ export default function PlayerProfileScreen({ player, onPlayerUpdated, onClose,
 
   const loadGameHistory = async () => {
     try {
-      const history = await PlayerStorageService.getGameHistory(10);
+      const history = await PlayerStorageService.getGameHistory(50);
       setGameHistory(history);
     } catch (error) {
       console.error('Error loading game history:', error);
@@ -593,6 +610,15 @@ export default function PlayerProfileScreen({ player, onPlayerUpdated, onClose,
           </Text>
         </View>
         
+        {!!player.zenPracticeTime && (
+          <View style={styles.statRow}>
+            <Text style={[styles.statRowLabel, { color: theme.colors.textSecondary }]}>🧘 Zen Practice Time</Text>
+            <Text style={[styles.statRowValue, { color: theme.colors.text }]}>
+              {Math.floor(player.zenPracticeTime / 60)}m {player.zenPracticeTime % 60}s
+            </Text>
+          </View>
+        )}
+
         <View style={styles.statRow}>
           <Text style={[styles.statRowLabel, { color: theme.colors.textSecondary }]}>Total Coins Earned</Text>
           <Text style={[styles.statRowValue, { color: theme.colors.text }]}>{player.totalCoinsEarned}</Text>
@@ -603,6 +629,47 @@ export default function PlayerProfileScreen({ player, onPlayerUpdated, onClose,
           <Text style={[styles.statRowValue, { color: theme.colors.text }]}>{player.experience} XP</Text>
         </View>
       </View>
+
+      {player.modeStats && Object.keys(player.modeStats).length > 0 && (
+        <View style={[styles.card, { backgroundColor: theme.colors.card }]}>
+          <Text style={[styles.cardTitle, { color: theme.colors.text }]}>🎮 By Mode</Text>
+          {(Object.keys(MODE_LABELS) as GameResultMode[]).map(mode => {
+            const stats = player.modeStats?.[mode];
+            if (!stats) return null;
+            const accuracy = stats.totalQuestions > 0 ? Math.round((stats.totalCorrectAnswers / stats.totalQuestions) * 100) : 0;
+            return (
+              <View key={mode} style={styles.statRow}>
+                <Text style={[styles.statRowLabel, { color: theme.colors.textSecondary }]}>{MODE_LABELS[mode]}</Text>
+                <Text style={[styles.statRowValue, { color: theme.colors.text }]}>
+                  {stats.gamesPlayed} played · {accuracy}% · best {stats.bestScore}
+                </Text>
+              </View>
+            );
+          })}
+        </View>
+      )}
+
+      {player.survivalBest && (
+        <View style={[styles.card, { backgroundColor: theme.colors.card }]}>
+          <Text style={[styles.cardTitle, { color: theme.colors.text }]}>❤️ Best Survival Run</Text>
+          <View style={styles.statRow}>
+            <Text style={[styles.statRowLabel, { color: theme.colors.textSecondary }]}>Correct Answers</Text>
+            <Text style={[styles.statRowValue, { color: theme.colors.text }]}>{player.survivalBest.score}</Text>
+          </View>
+          <View style={styles.statRow}>
+            <Text style={[styles.statRowLabel, { color: theme.colors.textSecondary }]}>Longest Streak</Text>
+            <Text style={[styles.statRowValue, { color: theme.colors.text }]}>{player.survivalBest.longestStreak}</Text>
+          </View>
+          <View style={styles.statRow}>
+            <Text style={[styles.statRowLabel, { color: theme.colors.textSecondary }]}>Difficulty Reached</Text>
+            <Text style={[styles.statRowValue, { color: theme.colors.text }]}>{player.survivalBest.difficulty.toUpperCase()}</Text>
+          </View>
+          <View style={styles.statRow}>
+            <Text style={[styles.statRowLabel, { color: theme.colors.textSecondary }]}>Played</Text>
+            <Text style={[styles.statRowValue, { color: theme.colors.text }]}>{new Date(player.survivalBest.playedAt).toLocaleDateString()}</Text>
+          </View>
+        </View>
+      )}
     </ScrollView>
   );
 
@@ -773,6 +840,21 @@ export default function PlayerProfileScreen({ player, onPlayerUpdated, onClose,
             </Text>
           </TouchableOpacity>
         </View>
+        
+        <View style={styles.settingRow}>
+          <Text style={[styles.settingLabel, { color: theme.colors.textSecondary }]}>Question Style</Text>
+          <TouchableOpacity
+            style={styles.keyboardLayoutButton}
+            onPress={() => updateSetting('questionStyle',
+              player.settings.questionStyle === 'result' ? 'missing' : player.settings.questionStyle === 'missing' ? 'mixed' : 'result'
+            )}
+            disabled={loading}
+          >
+            <Text style={styles.keyboardLayoutText}>
+              {player.settings.questionStyle === 'missing' ? '? × 6 = 42' : player.settings.questionStyle === 'mixed' ? '🔀 Mixed' : '7 × 6 = ?'}
+            </Text>
+          </TouchableOpacity>
+        </View>
       </View>
       
       <View style={[styles.card, { backgroundColor: theme.colors.card }]}>
@@ -1013,46 +1095,124 @@ export default function PlayerProfileScreen({ player, onPlayerUpdated, onClose,
     </ScrollView>
   );
 
-  const renderHistory = () => (
-    <ScrollView style={styles.tabContent} showsVerticalScrollIndicator={false}>
-      <View style={[styles.card, { backgroundColor: theme.colors.card }]}>
-        <Text style={[styles.cardTitle, { color: theme.colors.text }]}>📈 Recent Games</Text>
-        
-        {gameHistory.length > 0 ? (
-          gameHistory.map((game, index) => (
-            <View key={index} style={styles.historyItem}>
-              <View style={styles.historyHeader}>
-                <Text style={styles.historyScore}>
-                  {game.score}/{game.totalQuestions}
-                </Text>
-                <Text style={[styles.historyDate, { color: theme.colors.textTertiary }]}>
-                  {formatDate(game.playedAt)}
-                </Text>
-              </View>
-              <View style={styles.historyDetails}>
-                <Text style={[styles.historyDetail, { color: theme.colors.textTertiary }]}>
-                  Accuracy: {game.accuracy}%
-                </Text>
-                <Text style={[styles.historyDetail, { color: theme.colors.textTertiary }]}>
-                  Avg Time: {game.averageTime.toFixed(1)}s
-                </Text>
-                <Text style={[styles.historyDetail, { color: theme.colors.textTertiary }]}>
-                  Difficulty: {game.difficulty}
-                </Text>
-                <Text style={[styles.historyDetail, { color: theme.colors.textTertiary }]}>
-                  Earned: {game.coinsEarned} 🪙
-                </Text>
-              </View>
+  const renderHistory = () => {
+    // Only offer the modes that appear in the history
+    const playedModes = Object.keys(MODE_LABELS).filter(mode =>
+      gameHistory.some(game => game.mode === mode)
+    ) as GameResultMode[];
+    const filteredHistory = gameHistory.filter(game =>
+      (historyMode === 'all' || game.mode === historyMode) &&
+      (historyDifficulty === 'all' || game.difficulty === historyDifficulty)
+    );
+    const renderFilterChip = (label: string, selected: boolean, onPress: () => void) => (
+      <TouchableOpacity
+        key={label}
+        style={[styles.filterChip, selected && styles.filterChipSelected]}
+        onPress={() => {
+          setExpandedGame(null);
+          onPress();
+        }}
+      >
+        <Text style={[styles.filterChipText, selected && styles.filterChipTextSelected]}>{label}</Text>
+      </TouchableOpacity>
+    );
+
+    return (
+      <ScrollView style={styles.tabContent} showsVerticalScrollIndicator={false}>
+        <View style={[styles.card, { backgroundColor: theme.colors.card }]}>
+          <Text style={[styles.cardTitle, { color: theme.colors.text }]}>📈 Recent Games</Text>
+
+          {playedModes.length > 0 && (
+            <View style={styles.filterRow}>
+              {renderFilterChip('All modes', historyMode === 'all', () => setHistoryMode('all'))}
+              {playedModes.map(mode => renderFilterChip(MODE_LABELS[mode], historyMode === mode, () => setHistoryMode(mode)))}
             </View>
-          ))
-        ) : (
-          <Text style={[styles.emptyText, { color: theme.colors.textTertiary }]}>
-            No games played yet. Start playing to see your history!
-          </Text>
-        )}
-      </View>
-    </ScrollView>
-  );
+          )}
+          <View style={styles.filterRow}>
+            {DIFFICULTY_FILTERS.map(difficulty => renderFilterChip(
+              difficulty === 'all' ? 'All difficulties' : difficulty.charAt(0).toUpperCase() + difficulty.slice(1),
+              historyDifficulty === difficulty,
+              () => setHistoryDifficulty(difficulty)
+            ))}
+          </View>
+        
+          {filteredHistory.length > 0 ? (
+            filteredHistory.map((game, index) => (
+              <TouchableOpacity
+                key={index}
+                style={styles.historyItem}
+                onPress={() => setExpandedGame(expandedGame === index ? null : index)}
+                disabled={!game.questions?.length}
+                activeOpacity={0.7}
+              >
+                <View style={styles.historyHeader}>
+                  <Text style={styles.historyScore}>
+                    {game.score}/{game.totalQuestions}
+                  </Text>
+                  <Text style={[styles.historyDate, { color: theme.colors.textTertiary }]}>
+                    {formatDate(game.playedAt)}
+                  </Text>
+                </View>
+                {game.mode && (
+                  <Text style={[styles.historyMode, { color: theme.colors.textSecondary }]}>
+                    {MODE_LABELS[game.mode]}{game.variant ? ` · ${game.variant}` : ''}
+                  </Text>
+                )}
+                <View style={styles.historyDetails}>
+                  <Text style={[styles.historyDetail, { color: theme.colors.textTertiary }]}>
+                    Accuracy: {game.accuracy}%
+                  </Text>
+                  <Text style={[styles.historyDetail, { color: theme.colors.textTertiary }]}>
+                    Avg Time: {game.averageTime.toFixed(1)}s
+                  </Text>
+                  <Text style={[styles.historyDetail, { color: theme.colors.textTertiary }]}>
+                    Difficulty: {game.difficulty}
+                  </Text>
+                  <Text style={[styles.historyDetail, { color: theme.colors.textTertiary }]}>
+                    Earned: {game.coinsEarned} 🪙
+                  </Text>
+                  {!!game.hintsUsed && (
+                    <Text style={[styles.historyDetail, { color: theme.colors.textTertiary }]}>
+                      Hints: {game.hintsUsed} 💡
+                    </Text>
+                  )}
+                </View>
+                {/* Games saved before per-question records have nothing to expand */}
+                {!!game.questions?.length && (
+                  expandedGame === index ? (
+                    <View style={styles.historyQuestions}>
+                      {game.questions.map((record, questionIndex) => (
+                        <View key={questionIndex} style={styles.historyQuestionRow}>
+                          <Text style={[styles.historyQuestionText, { color: theme.colors.text }]}>
+                            {record.correct ? '✅' : '❌'} {record.question}
+                          </Text>
+                          <Text style={[styles.historyQuestionDetail, { color: theme.colors.textTertiary }]}>
+                            {record.correct ? record.givenAnswer : `${record.givenAnswer} → ${record.correctAnswer}`}
+                            {' · '}{record.time.toFixed(1)}s
+                            {record.hintsUsed > 0 ? ` · 💡${record.hintsUsed}` : ''}
+                          </Text>
+                        </View>
+                      ))}
+                    </View>
+                  ) : (
+                    <Text style={[styles.historyExpandHint, { color: theme.colors.textTertiary }]}>
+                      Tap to see each question
+                    </Text>
+                  )
+                )}
+              </TouchableOpacity>
+            ))
+          ) : (
+            <Text style={[styles.emptyText, { color: theme.colors.textTertiary }]}>
+              {gameHistory.length > 0
+                ? 'No games match these filters.'
+                : 'No games played yet. Start playing to see your history!'}
+            </Text>
+          )}
+        </View>
+      </ScrollView>
+    );
+  };
 
   const renderContent = () => {
     switch (activeTab) {
@@ -1615,6 +1775,60 @@ const styles = StyleSheet.create({
     marginBottom: 5,
     width: '48%',
   },
+  historyMode: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 10,
+  },
+  filterChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 14,
+    backgroundColor: 'rgba(128, 128, 128, 0.2)',
+  },
+  filterChipSelected: {
+    backgroundColor: '#4CAF50',
+  },
+  filterChipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#888',
+  },
+  filterChipTextSelected: {
+    color: '#fff',
+  },
+  historyExpandHint: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  historyQuestions: {
+    borderTopWidth: 1,
+    borderTopColor: '#e0e0e0',
+    marginTop: 6,
+    paddingTop: 6,
+  },
+  historyQuestionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 3,
+  },
+  historyQuestionText: {
+    fontSize: 13,
+    flexShrink: 1,
+  },
+  historyQuestionDetail: {
+    fontSize: 12,
+    marginLeft: 8,
+  },
   // Username Change Styles
   usernameChangeInfo: {
     flex: 1,
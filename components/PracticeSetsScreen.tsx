@@ -0,0 +1,436 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  TextInput,
+  Share,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Operation, QuestionStyle } from '../types/Equation';
+import { PracticeSet } from '../types/Player';
+import { PracticeSetCodes } from '../utils/PracticeSetCodes';
+import { useTheme } from '../contexts/ThemeContext';
+import { IslandButton } from './IslandButton';
+import { IslandCard } from './IslandCard';
+import { BackgroundWrapper } from './BackgroundWrapper';
+
+interface PracticeSetsScreenProps {
+  practiceSets: PracticeSet[];
+  onSave: (practiceSet: PracticeSet) => void | Promise<void>;
+  onDelete: (practiceSetId: string) => void | Promise<void>;
+  onPlay: (practiceSet: PracticeSet) => void;
+  onImport: (code: string) => void;
+  onBack: () => void;
+  backgroundColors: string[];
+  backgroundType: string;
+  animationType?: string;
+}
+
+const OPERATION_OPTIONS: Operation[] = ['+', '-', '×', '÷'];
+const OPERAND_OPTIONS = Array.from({ length: 20 }, (_, i) => i + 1);
+const QUESTION_COUNT_OPTIONS = [10, 20, 30, 50];
+const TIME_LIMIT_OPTIONS: { value: number; label: string }[] = [
+  { value: 0, label: 'Off' },
+  { value: 60, label: '1 min' },
+  { value: 120, label: '2 min' },
+  { value: 300, label: '5 min' },
+];
+const QUESTION_STYLE_OPTIONS: { value: QuestionStyle; label: string }[] = [
+  { value: 'result', label: '7 × 6 = ?' },
+  { value: 'missing', label: '? × 6 = 42' },
+  { value: 'mixed', label: '🔀 Mixed' },
+];
+
+const createDraft = (): PracticeSet => ({
+  id: `set_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+  name: '',
+  operations: ['×'],
+  operands: [2, 3, 4, 5, 6, 7, 8, 9, 10],
+  questionCount: 20,
+  timeLimit: 0,
+  questionStyle: 'result',
+  createdAt: new Date().toISOString(),
+});
+
+const describeSet = (practiceSet: PracticeSet): string => {
+  const operands = [...practiceSet.operands].sort((a, b) => a - b).join(', ');
+  const time = practiceSet.timeLimit > 0 ? `${practiceSet.timeLimit / 60} min` : 'untimed';
+  return `${practiceSet.operations.join(' ')} · ${operands}\n${practiceSet.questionCount} questions · ${time}`;
+};
+
+const PracticeSetsScreen: React.FC<PracticeSetsScreenProps> = ({
+  practiceSets,
+  onSave,
+  onDelete,
+  onPlay,
+  onImport,
+  onBack,
+  backgroundColors,
+  backgroundType,
+  animationType,
+}) => {
+  const { theme } = useTheme();
+  const [draft, setDraft] = useState<PracticeSet | null>(null);
+  const [importCode, setImportCode] = useState('');
+
+  const toggle = <T,>(items: T[], item: T): T[] =>
+    items.includes(item) ? items.filter(existing => existing !== item) : [...items, item];
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    const name = draft.name.trim();
+    if (!name) {
+      Alert.alert('Name Required', 'Give your practice set a name.');
+      return;
+    }
+    if (draft.operations.length === 0 || draft.operands.length === 0) {
+      Alert.alert('Incomplete Set', 'Pick at least one operation and one number.');
+      return;
+    }
+
+    try {
+      await onSave({ ...draft, name, operands: [...draft.operands].sort((a, b) => a - b) });
+      setDraft(null);
+    } catch (error) {
+      console.error('Error saving practice set:', error);
+      Alert.alert('Error', 'Failed to save practice set');
+    }
+  };
+
+  const handleDelete = (practiceSet: PracticeSet) => {
+    Alert.alert(
+      'Delete Practice Set',
+      `Delete "${practiceSet.name}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => onDelete(practiceSet.id) },
+      ]
+    );
+  };
+
+  const handleShare = async (practiceSet: PracticeSet) => {
+    try {
+      await Share.share({
+        message: `Try my practice set "${practiceSet.name}"!\n${PracticeSetCodes.toLink(practiceSet)}\n\nOr enter this code in Practice Sets: ${PracticeSetCodes.encode(practiceSet)}`,
+      });
+    } catch (error) {
+      console.error('Error sharing practice set:', error);
+    }
+  };
+
+  const handleImport = () => {
+    if (!importCode.trim()) return;
+    onImport(importCode);
+    setImportCode('');
+  };
+
+  const renderChip = (label: string, selected: boolean, onPress: () => void, key: string | number) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderEditor = (practiceSet: PracticeSet) => (
+    <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+      <IslandCard variant="elevated" style={styles.section}>
+        <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Name</Text>
+        <TextInput
+          style={[styles.nameInput, { color: theme.colors.text, borderColor: theme.colors.border }]}
+          value={practiceSet.name}
+          onChangeText={name => setDraft({ ...practiceSet, name })}
+          placeholder="e.g. Tricky 7s and 8s"
+          placeholderTextColor={theme.colors.textTertiary}
+          maxLength={30}
+        />
+      </IslandCard>
+
+      <IslandCard variant="elevated" style={styles.section}>
+        <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Operations</Text>
+        <View style={styles.chipRow}>
+          {OPERATION_OPTIONS.map(operation => renderChip(
+            operation,
+            practiceSet.operations.includes(operation),
+            () => setDraft({ ...practiceSet, operations: toggle(practiceSet.operations, operation) }),
+            operation
+          ))}
+        </View>
+      </IslandCard>
+
+      <IslandCard variant="elevated" style={styles.section}>
+        <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Numbers</Text>
+        <Text style={[styles.sectionHint, { color: theme.colors.textSecondary }]}>
+          Questions only use these numbers (for ÷ and − the answer is one of them too)
+        </Text>
+        <View style={styles.chipRow}>
+          {OPERAND_OPTIONS.map(operand => renderChip(
+            `${operand}`,
+            practiceSet.operands.includes(operand),
+            () => setDraft({ ...practiceSet, operands: toggle(practiceSet.operands, operand) }),
+            operand
+          ))}
+        </View>
+      </IslandCard>
+
+      <IslandCard variant="elevated" style={styles.section}>
+        <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Questions</Text>
+        <View style={styles.chipRow}>
+          {QUESTION_COUNT_OPTIONS.map(count => renderChip(
+            `${count}`,
+            practiceSet.questionCount === count,
+            () => setDraft({ ...practiceSet, questionCount: count }),
+            count
+          ))}
+        </View>
+      </IslandCard>
+
+      <IslandCard variant="elevated" style={styles.section}>
+        <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Time Limit</Text>
+        <View style={styles.chipRow}>
+          {TIME_LIMIT_OPTIONS.map(option => renderChip(
+            option.label,
+            practiceSet.timeLimit === option.value,
+            () => setDraft({ ...practiceSet, timeLimit: option.value }),
+            option.value
+          ))}
+        </View>
+      </IslandCard>
+
+      <IslandCard variant="elevated" style={styles.section}>
+        <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Answer Format</Text>
+        <View style={styles.chipRow}>
+          {QUESTION_STYLE_OPTIONS.map(option => renderChip(
+            option.label,
+            practiceSet.questionStyle === option.value,
+            () => setDraft({ ...practiceSet, questionStyle: option.value }),
+            option.value
+          ))}
+        </View>
+      </IslandCard>
+
+      <View style={styles.actionRow}>
+        <TouchableOpacity style={[styles.actionButton, styles.cancelButton]} onPress={() => setDraft(null)}>
+          <Text style={styles.actionButtonText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.actionButton} onPress={handleSave}>
+          <Text style={styles.actionButtonText}>💾 Save</Text>
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+
+  const renderList = () => (
+    <ScrollView contentContainerStyle={styles.content}>
+      {practiceSets.length === 0 && (
+        <IslandCard variant="elevated" style={styles.section}>
+          <Text style={[styles.emptyText, { color: theme.colors.textSecondary }]}>
+            Build a set of just the facts you want to practise, like the 7 and 8 times tables.
+          </Text>
+        </IslandCard>
+      )}
+
+      {practiceSets.map(practiceSet => (
+        <IslandCard key={practiceSet.id} variant="elevated" style={styles.setCard}>
+          <TouchableOpacity style={styles.setInfo} onPress={() => setDraft(practiceSet)}>
+            <Text style={[styles.setName, { color: theme.colors.text }]}>{practiceSet.name}</Text>
+            <Text style={[styles.setDetails, { color: theme.colors.textSecondary }]}>{describeSet(practiceSet)}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.iconButton} onPress={() => handleShare(practiceSet)}>
+            <Text style={styles.iconButtonText}>📤</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(practiceSet)}>
+            <Text style={styles.iconButtonText}>🗑️</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.playButton} onPress={() => onPlay(practiceSet)}>
+            <Text style={styles.actionButtonText}>▶ Play</Text>
+          </TouchableOpacity>
+        </IslandCard>
+      ))}
+
+      <TouchableOpacity style={[styles.actionButton, styles.newSetButton]} onPress={() => setDraft(createDraft())}>
+        <Text style={styles.actionButtonText}>➕ New Practice Set</Text>
+      </TouchableOpacity>
+
+      <IslandCard variant="elevated" style={styles.section}>
+        <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Have a code?</Text>
+        <View style={styles.importRow}>
+          <TextInput
+            style={[styles.nameInput, styles.importInput, { color: theme.colors.text, borderColor: theme.colors.border }]}
+            value={importCode}
+            onChangeText={setImportCode}
+            placeholder="MP1-..."
+            placeholderTextColor={theme.colors.textTertiary}
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          <TouchableOpacity style={styles.playButton} onPress={handleImport}>
+            <Text style={styles.actionButtonText}>📥 Open</Text>
+          </TouchableOpacity>
+        </View>
+      </IslandCard>
+    </ScrollView>
+  );
+
+  return (
+    <BackgroundWrapper colors={backgroundColors} type={backgroundType} animationType={animationType} style={styles.container}>
+      <SafeAreaView style={styles.container} edges={['top', 'left', 'right']}>
+        <View style={styles.header}>
+          <IslandButton
+            icon="←"
+            size="small"
+            variant="secondary"
+            onPress={draft ? () => setDraft(null) : onBack}
+          />
+          <IslandCard variant="elevated" padding={12}>
+            <Text style={[styles.headerTitle, { color: theme.colors.text }]}>
+              {draft ? '✏️ Edit Practice Set' : '📝 Practice Sets'}
+            </Text>
+          </IslandCard>
+          <View style={styles.headerRight} />
+        </View>
+
+        {draft ? renderEditor(draft) : renderList()}
+      </SafeAreaView>
+    </BackgroundWrapper>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 15,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  headerRight: {
+    width: 44,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 60,
+    gap: 15,
+  },
+  section: {
+    gap: 10,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  sectionHint: {
+    fontSize: 13,
+  },
+  nameInput: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 15,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    minWidth: 44,
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: 'rgba(128, 128, 128, 0.2)',
+  },
+  chipSelected: {
+    backgroundColor: '#4CAF50',
+  },
+  chipText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#888',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  actionButton: {
+    flex: 1,
+    alignItems: 'center',
+    backgroundColor: '#4CAF50',
+    borderRadius: 12,
+    paddingVertical: 14,
+  },
+  cancelButton: {
+    backgroundColor: '#757575',
+  },
+  actionButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  newSetButton: {
+    flex: 0,
+    backgroundColor: '#FFB74D',
+  },
+  emptyText: {
+    fontSize: 15,
+    textAlign: 'center',
+  },
+  setCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  setInfo: {
+    flex: 1,
+  },
+  setName: {
+    fontSize: 17,
+    fontWeight: 'bold',
+  },
+  setDetails: {
+    fontSize: 13,
+    marginTop: 4,
+  },
+  iconButton: {
+    padding: 6,
+  },
+  iconButtonText: {
+    fontSize: 18,
+  },
+  importRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  importInput: {
+    flex: 1,
+  },
+  playButton: {
+    backgroundColor: '#4CAF50',
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+  },
+});
+
+export default PracticeSetsScreen;
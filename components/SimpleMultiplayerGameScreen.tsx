@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import {
   View,
   Text,
@@ -17,11 +17,13 @@ import { PlayerProfile } from '../types/Player';
 import { useBackground } from '../hooks/useBackground';
 import { useTheme } from '../contexts/ThemeContext';
 import { BackgroundWrapper } from './BackgroundWrapper';
+import { NumericKeypad } from './NumericKeypad';
 import DrawingNotepad from '../DrawingNotepad';
+import { EquationGenerator } from '../utils/EquationGenerator';
+import { AnswerChecker } from '../utils/AnswerChecker';
+import { Difficulty, Equation } from '../types/Equation';
 
-interface Equation {
-  question: string;
-  answer: number;
+interface MultiplayerEquation extends Equation {
   questionId: string;
 }
 
@@ -29,7 +31,7 @@ interface SimpleMultiplayerGameScreenProps {
   playerProfile: PlayerProfile;
   onGameEnd: (results: any) => void;
   onBackToMenu: () => void;
-  difficulty: 'easy' | 'medium' | 'hard';
+  difficulty: Difficulty;
   gameMode: GameMode;
   backgroundColors?: string[];
   backgroundType?: string;
@@ -66,7 +68,7 @@ export const SimpleMultiplayerGameScreen: React.FC<SimpleMultiplayerGameScreenPr
     : initialColors;
   
   const [gameState, setGameState] = useState<'setup' | 'playing' | 'finished'>('setup');
-  const [currentEquation, setCurrentEquation] = useState<Equation | null>(null);
+  const [currentEquation, setCurrentEquation] = useState<MultiplayerEquation | null>(null);
   const [myScore, setMyScore] = useState(0);
   const [myCorrect, setMyCorrect] = useState(0);
   const [currentAnswer, setCurrentAnswer] = useState('');
@@ -74,6 +76,8 @@ export const SimpleMultiplayerGameScreen: React.FC<SimpleMultiplayerGameScreenPr
   const [questionCount, setQuestionCount] = useState(0);
   const [totalQuestions] = useState(10);
   const [gameResults, setGameResults] = useState<any>(null);
+  // Seconds taken on each of the profile owner's answers (all of them against the bot, player 1's turns locally)
+  const ownerAnswerTimesRef = useRef<number[]>([]);
   
   // Bot mode states
   const [botScore, setBotScore] = useState(0);
@@ -96,78 +100,10 @@ export const SimpleMultiplayerGameScreen: React.FC<SimpleMultiplayerGameScreenPr
   const [showNotepad, setShowNotepad] = useState(false);
 
   // Generate random math equations based on difficulty
-  const generateEquation = useCallback((): Equation => {
-    let num1: number, num2: number, operation: string, answer: number, question: string;
-    
-    switch (difficulty) {
-      case 'easy':
-        num1 = Math.floor(Math.random() * 10) + 1;
-        num2 = Math.floor(Math.random() * 10) + 1;
-        operation = Math.random() < 0.7 ? '+' : '-';
-        if (operation === '-' && num1 < num2) [num1, num2] = [num2, num1];
-        answer = operation === '+' ? num1 + num2 : num1 - num2;
-        question = `${num1} ${operation} ${num2}`;
-        break;
-      case 'medium':
-        if (Math.random() < 0.6) {
-          // Addition/Subtraction with larger numbers
-          num1 = Math.floor(Math.random() * 50) + 10;
-          num2 = Math.floor(Math.random() * 30) + 5;
-          operation = Math.random() < 0.5 ? '+' : '-';
-          if (operation === '-' && num1 < num2) [num1, num2] = [num2, num1];
-          answer = operation === '+' ? num1 + num2 : num1 - num2;
-          question = `${num1} ${operation} ${num2}`;
-        } else {
-          // Simple multiplication
-          num1 = Math.floor(Math.random() * 12) + 1;
-          num2 = Math.floor(Math.random() * 12) + 1;
-          answer = num1 * num2;
-          question = `${num1} × ${num2}`;
-        }
-        break;
-      case 'hard':
-        const operations = ['+', '-', '×', '÷'];
-        operation = operations[Math.floor(Math.random() * operations.length)];
-        
-        switch (operation) {
-          case '+':
-            num1 = Math.floor(Math.random() * 100) + 10;
-            num2 = Math.floor(Math.random() * 100) + 10;
-            answer = num1 + num2;
-            question = `${num1} + ${num2}`;
-            break;
-          case '-':
-            num1 = Math.floor(Math.random() * 100) + 50;
-            num2 = Math.floor(Math.random() * 50) + 10;
-            answer = num1 - num2;
-            question = `${num1} - ${num2}`;
-            break;
-          case '×':
-            num1 = Math.floor(Math.random() * 15) + 2;
-            num2 = Math.floor(Math.random() * 15) + 2;
-            answer = num1 * num2;
-            question = `${num1} × ${num2}`;
-            break;
-          case '÷':
-            answer = Math.floor(Math.random() * 15) + 2;
-            num2 = Math.floor(Math.random() * 12) + 2;
-            num1 = answer * num2;
-            question = `${num1} ÷ ${num2}`;
-            break;
-          default:
-            num1 = 1; num2 = 1; answer = 2; question = '1 + 1';
-        }
-        break;
-      default:
-        num1 = 1; num2 = 1; answer = 2; question = '1 + 1';
-    }
-
-    return {
-      question,
-      answer,
-      questionId: `q_${Date.now()}_${Math.random()}`,
-    };
-  }, [difficulty]);
+  const generateEquation = useCallback((): MultiplayerEquation => ({
+    ...EquationGenerator.generate(difficulty),
+    questionId: `q_${Date.now()}_${Math.random()}`,
+  }), [difficulty]);
 
   // Initialize game
   const initializeGame = useCallback(() => {
@@ -197,6 +133,8 @@ export const SimpleMultiplayerGameScreen: React.FC<SimpleMultiplayerGameScreenPr
       }
     };
 
+    ownerAnswerTimesRef.current = [];
+
     // Generate first question
     const firstEquation = generateEquation();
     setCurrentEquation(firstEquation);
@@ -206,13 +144,16 @@ export const SimpleMultiplayerGameScreen: React.FC<SimpleMultiplayerGameScreenPr
   }, [gameMode, playerProfile.username, generateEquation]);
 
   // Handle answer submission
-  const submitAnswer = useCallback(() => {
-    if (!currentEquation || currentAnswer === '') return;
+  const submitAnswer = useCallback((answer: string = currentAnswer) => {
+    if (!currentEquation || answer === '') return;
 
-    const isCorrect = parseInt(currentAnswer) === currentEquation.answer;
+    const isCorrect = AnswerChecker.isCorrect(currentEquation, answer);
     const baseScore = isCorrect ? 100 : 0;
     const timeBonus = isCorrect ? Math.max(0, (timeLeft * 2)) : 0;
     const totalScore = baseScore + timeBonus;
+    if (gameMode === 'bot' || currentPlayer === 1) {
+      ownerAnswerTimesRef.current.push(30 - timeLeft);
+    }
 
     // Show feedback
     setIsCorrectAnswer(isCorrect);
@@ -243,7 +184,7 @@ export const SimpleMultiplayerGameScreen: React.FC<SimpleMultiplayerGameScreenPr
         }, 500);
       }
     }, 1500);
-  }, [currentEquation, currentAnswer, timeLeft, questionCount, totalQuestions]);
+  }, [currentEquation, currentAnswer, timeLeft, questionCount, totalQuestions, gameMode, currentPlayer]);
 
   // End the game
   const endGame = useCallback(() => {
@@ -251,19 +192,30 @@ export const SimpleMultiplayerGameScreen: React.FC<SimpleMultiplayerGameScreenPr
     setGameResults(results);
     setGameState('finished');
     
-    // Award coins and XP for good performance
-    if (results && (results.winner === 'player' || (results.winner === 'player1' && playerProfile.username === (results as any).player1Name))) {
-      PlayerStorageService.addCoins(50);
-      // PlayerStorageService.addXP(100); // Method doesn't exist yet
-    } else if (results?.winner === 'tie') {
-      PlayerStorageService.addCoins(25);
-      // PlayerStorageService.addXP(50); // Method doesn't exist yet
-    }
+    // Award coins for good performance; the match goes in the history and mode stats with the owner's own answers
+    const won = results?.mode === 'bot'
+      ? results.winner === 'player'
+      : results?.winner === 'player1' && playerProfile.username === results.player1Name;
+    const ownerCorrect = results?.mode === 'local1v1' ? results.player1Correct : myCorrect;
+    const answerTimes = ownerAnswerTimesRef.current;
+    PlayerStorageService.saveMatchResult({
+      score: ownerCorrect,
+      totalQuestions: answerTimes.length,
+      accuracy: answerTimes.length > 0 ? Math.round((ownerCorrect / answerTimes.length) * 100) : 0,
+      averageTime: answerTimes.length > 0 ? answerTimes.reduce((total, time) => total + time, 0) / answerTimes.length : 0,
+      difficulty,
+      coinsEarned: won ? 50 : results?.winner === 'tie' ? 25 : 0,
+      experienceGained: 0, // Matches don't award XP
+      playedAt: new Date(),
+      mode: gameMode === 'bot' ? 'bot_battle' : 'local_1v1',
+    }).catch(error => {
+      console.error('Error saving multiplayer result:', error);
+    });
 
     setTimeout(() => {
       onGameEnd(results);
     }, 2000);
-  }, [myScore, myCorrect, playerProfile.username, onGameEnd]);
+  }, [myScore, myCorrect, totalQuestions, difficulty, gameMode, playerProfile.username, onGameEnd]);
 
   // Timer effect
   useEffect(() => {
@@ -286,65 +238,6 @@ export const SimpleMultiplayerGameScreen: React.FC<SimpleMultiplayerGameScreenPr
     };
   }, [initializeGame]);
 
-  // Handle number input
-  const handleNumberInput = (num: string) => {
-    if (gameState !== 'playing') return;
-    
-    if (gameMode === 'local1v1') {
-      // In turn-based mode, only allow input for current player
-      const gameStateData = simpleMultiplayer.getGameState();
-      if (gameStateData && gameStateData.mode === 'local1v1') {
-        // Allow input (simplified for now - could add player validation)
-      }
-    }
-    
-    if (num === 'Clear') {
-      setCurrentAnswer('');
-    } else if (num === 'Enter') {
-      submitAnswer();
-    } else {
-      setCurrentAnswer(prev => prev + num);
-    }
-  };
-
-  // Render keypad
-  const renderKeypad = () => {
-    const keyRows = [
-      ['1', '2', '3'],
-      ['4', '5', '6'],
-      ['7', '8', '9'],
-      ['Clear', '0', 'Enter']
-    ];
-
-    return (
-      <View style={styles.keypad}>
-        {keyRows.map((row, rowIndex) => (
-          <View key={rowIndex} style={styles.keypadRow}>
-            {row.map((key) => (
-              <TouchableOpacity
-                key={key}
-                style={[
-                  styles.key,
-                  key === 'Clear' && styles.clearKey,
-                  key === 'Enter' && styles.enterKey,
-                ]}
-                onPress={() => handleNumberInput(key)}
-              >
-                <Text style={[
-                  styles.keyText,
-                  key === 'Clear' && styles.clearKeyText,
-                  key === 'Enter' && styles.enterKeyText,
-                ]}>
-                  {key === 'Clear' ? '⌫' : key === 'Enter' ? '✓' : key}
-                </Text>
-              </TouchableOpacity>
-            ))}
-          </View>
-        ))}
-      </View>
-    );
-  };
-
   // Render score display
   const renderScores = () => {
     if (gameMode === 'bot') {
@@ -454,7 +347,7 @@ export const SimpleMultiplayerGameScreen: React.FC<SimpleMultiplayerGameScreenPr
         <View style={styles.gameArea}>
           {currentEquation && (
             <View style={styles.questionContainer}>
-              <Text style={styles.questionText}>{currentEquation.question} = ?</Text>
+              <Text style={styles.questionText}>{currentEquation.question}</Text>
             </View>
           )}
 
@@ -500,7 +393,16 @@ export const SimpleMultiplayerGameScreen: React.FC<SimpleMultiplayerGameScreenPr
             )}
           </View>
 
-          {renderKeypad()}
+          <NumericKeypad
+            value={currentAnswer}
+            onChange={setCurrentAnswer}
+            onSubmit={submitAnswer}
+            layout={playerProfile.settings.keyboardLayout}
+            autoSubmit={playerProfile.settings.autoSubmit}
+            answerLength={currentEquation ? AnswerChecker.formatAnswer(currentEquation).length : undefined}
+            disabled={gameState !== 'playing' || showFeedback}
+            style={styles.keypad}
+          />
         </View>
       </View>
 
@@ -760,56 +662,8 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
   },
   
-  // Keypad styles
   keypad: {
-    alignItems: 'center',
-    paddingHorizontal: 20,
     paddingBottom: 20,
-    backgroundColor: 'transparent', // Let background show through
-  },
-  keypadRow: {
-    flexDirection: 'row',
-    justifyContent: 'center',
-    marginBottom: 6,
-  },
-  key: {
-    width: 65,
-    height: 50,
-    backgroundColor: '#000000', // Black background
-    justifyContent: 'center',
-    alignItems: 'center',
-    borderRadius: 6,
-    marginHorizontal: 4,
-    elevation: 2,
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.1,
-    shadowRadius: 2,
-    borderWidth: 1.5,
-    borderColor: '#ffffff', // White outline
-  },
-  keyText: {
-    fontSize: 20,
-    fontWeight: '600',
-    color: '#ffffff', // White text
-  },
-  clearKey: {
-    backgroundColor: '#000000', // Keep black background
-    borderColor: '#ff5722', // Red outline for clear
-    borderWidth: 2,
-  },
-  clearKeyText: {
-    color: '#ff5722', // Red text for clear
-    fontSize: 18,
-  },
-  enterKey: {
-    backgroundColor: '#000000', // Keep black background
-    borderColor: '#4caf50', // Green outline for enter
-    borderWidth: 2,
-  },
-  enterKeyText: {
-    color: '#4caf50', // Green text for enter
-    fontSize: 18,
   },
 });
 
@@ -0,0 +1,339 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Dimensions,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { TimesTableOptions, TimesTablesProgress, DEFAULT_TIMES_TABLE_OPTIONS } from '../types/Player';
+import { TimesTables, TimesTableHeatMetric } from '../utils/TimesTables';
+import { useTheme } from '../contexts/ThemeContext';
+import { IslandButton } from './IslandButton';
+import { IslandCard } from './IslandCard';
+import { BackgroundWrapper } from './BackgroundWrapper';
+
+interface TimesTablesScreenProps {
+  progress?: TimesTablesProgress;
+  onContinue: (options: TimesTableOptions) => void;
+  onStartTable: (table: number, options: TimesTableOptions) => void;
+  onStartReview: (tables: number[], options: TimesTableOptions) => void;
+  onStartChallenge: (table: number, options: TimesTableOptions) => void;
+  onBack: () => void;
+  backgroundColors: string[];
+  backgroundType: string;
+  animationType?: string;
+}
+
+const { width } = Dimensions.get('window');
+// One header column plus 15 multipliers, inside the card's padding
+const CELL_SIZE = Math.floor((Math.min(width, 500) - 40 - 24) / (TimesTables.SIZE + 1));
+const NUMBERS = Array.from({ length: TimesTables.SIZE }, (_, i) => i + 1);
+const HEAT_COLORS = ['#E57373', '#FFB74D', '#FFF176', '#81C784']; // Needs work → mastered
+const UNPRACTICED_COLOR = 'rgba(128, 128, 128, 0.2)';
+const OPTION_LABELS: { key: keyof TimesTableOptions; label: string }[] = [
+  { key: 'shuffle', label: '🔀 Shuffle' },
+  { key: 'commutative', label: '↔️ 6×7 too' },
+  { key: 'division', label: '➗ Division' },
+];
+
+const TimesTablesScreen: React.FC<TimesTablesScreenProps> = ({
+  progress,
+  onContinue,
+  onStartTable,
+  onStartReview,
+  onStartChallenge,
+  onBack,
+  backgroundColors,
+  backgroundType,
+  animationType,
+}) => {
+  const { theme } = useTheme();
+  const [metric, setMetric] = useState<TimesTableHeatMetric>('accuracy');
+  const [selectedTables, setSelectedTables] = useState<number[]>([]);
+  const [selectedFact, setSelectedFact] = useState<{ table: number; multiplier: number } | null>(null);
+  const [options, setOptions] = useState<TimesTableOptions>(progress?.options ?? DEFAULT_TIMES_TABLE_OPTIONS);
+  const facts = progress?.facts ?? {};
+  const bestTime = selectedTables.length === 1 ? progress?.bestTimes?.[selectedTables[0]] : undefined;
+
+  const toggleTable = (table: number) => {
+    setSelectedTables(prev =>
+      prev.includes(table) ? prev.filter(existing => existing !== table) : [...prev, table].sort((a, b) => a - b)
+    );
+  };
+
+  const describeFact = (table: number, multiplier: number): string => {
+    const fact = facts[TimesTables.getFactKey(table, multiplier)];
+    if (!fact) return `${table} × ${multiplier} = ${table * multiplier} · not practised yet`;
+    const accuracy = Math.round((fact.correct / fact.attempts) * 100);
+    return `${table} × ${multiplier} = ${table * multiplier} · ${fact.correct}/${fact.attempts} correct (${accuracy}%) · ${fact.averageTime.toFixed(1)}s avg`;
+  };
+
+  return (
+    <BackgroundWrapper colors={backgroundColors} type={backgroundType} animationType={animationType} style={styles.container}>
+      <SafeAreaView style={styles.container} edges={['top', 'left', 'right']}>
+        <View style={styles.header}>
+          <IslandButton icon="←" size="small" variant="secondary" onPress={onBack} />
+          <IslandCard variant="elevated" padding={12}>
+            <Text style={[styles.headerTitle, { color: theme.colors.text }]}>🔢 Times Tables</Text>
+          </IslandCard>
+          <View style={styles.headerRight} />
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content}>
+          <IslandCard variant="elevated" padding={12} style={styles.gridCard}>
+            <View style={styles.metricRow}>
+              {(['accuracy', 'speed'] as TimesTableHeatMetric[]).map(option => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.metricButton, metric === option && styles.metricButtonSelected]}
+                  onPress={() => setMetric(option)}
+                >
+                  <Text style={[styles.metricText, metric === option && styles.metricTextSelected]}>
+                    {option === 'accuracy' ? '🎯 Accuracy' : '⚡ Speed'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <View style={styles.gridRow}>
+              <View style={styles.cell} />
+              {NUMBERS.map(multiplier => (
+                <View key={multiplier} style={styles.cell}>
+                  <Text style={[styles.headerCellText, { color: theme.colors.textSecondary }]}>{multiplier}</Text>
+                </View>
+              ))}
+            </View>
+            {NUMBERS.map(table => (
+              <View key={table} style={styles.gridRow}>
+                <TouchableOpacity
+                  style={[styles.cell, styles.tableHeaderCell, selectedTables.includes(table) && styles.tableHeaderSelected]}
+                  onPress={() => toggleTable(table)}
+                >
+                  <Text style={[styles.headerCellText, { color: selectedTables.includes(table) ? '#fff' : theme.colors.text }]}>
+                    {table}
+                  </Text>
+                </TouchableOpacity>
+                {NUMBERS.map(multiplier => {
+                  const level = TimesTables.getHeatLevel(facts[TimesTables.getFactKey(table, multiplier)], metric);
+                  const isSelected = selectedFact?.table === table && selectedFact?.multiplier === multiplier;
+                  return (
+                    <TouchableOpacity
+                      key={multiplier}
+                      style={[
+                        styles.cell,
+                        styles.factCell,
+                        { backgroundColor: level === null ? UNPRACTICED_COLOR : HEAT_COLORS[level] },
+                        isSelected && styles.factCellSelected,
+                      ]}
+                      onPress={() => setSelectedFact({ table, multiplier })}
+                    />
+                  );
+                })}
+              </View>
+            ))}
+
+            <Text style={[styles.factDetails, { color: theme.colors.textSecondary }]}>
+              {selectedFact
+                ? describeFact(selectedFact.table, selectedFact.multiplier)
+                : 'Tap a square for details, or a table number to select it'}
+            </Text>
+            <View style={styles.legendRow}>
+              <Text style={[styles.legendText, { color: theme.colors.textSecondary }]}>
+                {metric === 'accuracy' ? 'Less accurate' : 'Slower'}
+              </Text>
+              {HEAT_COLORS.map(color => (
+                <View key={color} style={[styles.legendSwatch, { backgroundColor: color }]} />
+              ))}
+              <Text style={[styles.legendText, { color: theme.colors.textSecondary }]}>
+                {metric === 'accuracy' ? 'More accurate' : 'Faster'}
+              </Text>
+            </View>
+          </IslandCard>
+
+          <View style={styles.optionsRow}>
+            {OPTION_LABELS.map(({ key, label }) => (
+              <TouchableOpacity
+                key={key}
+                style={[styles.metricButton, options[key] && styles.metricButtonSelected]}
+                onPress={() => setOptions(prev => ({ ...prev, [key]: !prev[key] }))}
+              >
+                <Text style={[styles.metricText, options[key] && styles.metricTextSelected]}>{label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <TouchableOpacity style={styles.actionButton} onPress={() => onContinue(options)}>
+            <Text style={styles.actionButtonText}>
+              ▶ Continue: {progress?.currentTable ?? 1}× table ({Math.max(0, (progress?.currentMultiplier ?? 1) - 1)}/{TimesTables.SIZE})
+            </Text>
+          </TouchableOpacity>
+
+          {selectedTables.length === 1 && (
+            <>
+              <TouchableOpacity style={[styles.actionButton, styles.startTableButton]} onPress={() => onStartTable(selectedTables[0], options)}>
+                <Text style={styles.actionButtonText}>🔢 Start the {selectedTables[0]}× table</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={[styles.actionButton, styles.challengeButton]} onPress={() => onStartChallenge(selectedTables[0], options)}>
+                <Text style={styles.actionButtonText}>
+                  ⏱️ {selectedTables[0]}× time challenge{bestTime !== undefined ? ` (best ${bestTime.toFixed(1)}s)` : ''}
+                </Text>
+              </TouchableOpacity>
+            </>
+          )}
+
+          {selectedTables.length > 0 && (
+            <TouchableOpacity style={[styles.actionButton, styles.reviewButton]} onPress={() => onStartReview(selectedTables, options)}>
+              <Text style={styles.actionButtonText}>
+                🔀 Shuffled review: {selectedTables.map(table => `${table}×`).join(', ')}
+              </Text>
+              {selectedTables.length * TimesTables.SIZE > TimesTables.MAX_REVIEW_QUESTIONS && (
+                <Text style={styles.reviewCapText}>
+                  {TimesTables.getReviewLength(selectedTables.length)} of {selectedTables.length * TimesTables.SIZE} facts, picked evenly from each table
+                </Text>
+              )}
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </BackgroundWrapper>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 15,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  headerRight: {
+    width: 44,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 60,
+    gap: 15,
+  },
+  gridCard: {
+    alignItems: 'center',
+  },
+  metricRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 10,
+  },
+  metricButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'rgba(128, 128, 128, 0.2)',
+  },
+  metricButtonSelected: {
+    backgroundColor: '#4CAF50',
+  },
+  metricText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#888',
+  },
+  metricTextSelected: {
+    color: '#fff',
+  },
+  gridRow: {
+    flexDirection: 'row',
+  },
+  cell: {
+    width: CELL_SIZE,
+    height: CELL_SIZE,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerCellText: {
+    fontSize: Math.max(8, CELL_SIZE * 0.45),
+    fontWeight: 'bold',
+  },
+  tableHeaderCell: {
+    borderRadius: CELL_SIZE / 2,
+  },
+  tableHeaderSelected: {
+    backgroundColor: '#7E57C2',
+  },
+  factCell: {
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.6)',
+    borderRadius: 3,
+  },
+  factCellSelected: {
+    borderWidth: 2,
+    borderColor: '#333',
+  },
+  factDetails: {
+    fontSize: 13,
+    textAlign: 'center',
+    marginTop: 10,
+  },
+  legendRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 8,
+  },
+  legendSwatch: {
+    width: 14,
+    height: 14,
+    borderRadius: 3,
+  },
+  legendText: {
+    fontSize: 11,
+    marginHorizontal: 4,
+  },
+  actionButton: {
+    alignItems: 'center',
+    backgroundColor: '#4CAF50',
+    borderRadius: 12,
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+  },
+  startTableButton: {
+    backgroundColor: '#42A5F5',
+  },
+  challengeButton: {
+    backgroundColor: '#FF7043',
+  },
+  optionsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  reviewButton: {
+    backgroundColor: '#7E57C2',
+  },
+  actionButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+    textAlign: 'center',
+  },
+  reviewCapText: {
+    color: '#fff',
+    fontSize: 12,
+    textAlign: 'center',
+    marginTop: 4,
+    opacity: 0.85,
+  },
+});
+
+export default TimesTablesScreen;
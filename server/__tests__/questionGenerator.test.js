@@ -0,0 +1,21 @@
+const questionGenerator = require('../questionGenerator');
+const { EquationGenerator } = require('../../utils/EquationGenerator');
+
+describe('server question sets', () => {
+  it.each(['whole', 'expressions'])('match the app generator for the same seed (%s)', (track) => {
+    ['easy', 'medium', 'hard'].forEach(difficulty => {
+      [0, 7, 123456, 4294967295].forEach(seed => {
+        expect(questionGenerator.generateQuestionSet(seed, difficulty, 10, track))
+          .toEqual(EquationGenerator.generateSequence(seed, difficulty, 10, track));
+      });
+    });
+  });
+
+  it('grades answers by value', () => {
+    const [equation] = questionGenerator.generateQuestionSet(1, 'hard', 1);
+    expect(questionGenerator.isCorrectAnswer(equation, equation.answer)).toBe(true);
+    expect(questionGenerator.isCorrectAnswer(equation, String(equation.answer))).toBe(true);
+    expect(questionGenerator.isCorrectAnswer(equation, equation.answer + 1)).toBe(false);
+    expect(questionGenerator.isCorrectAnswer(equation, '')).toBe(false);
+  });
+});
@@ -24,6 +24,7 @@ class DatabaseService {
           emailVerifications: new Map(), // key: token, value: {email, userId, createdAt}
           emailAccounts: new Map(), // key: email, value: {userId, verified, createdAt}
           passwordResetTokens: new Map(), // key: token, value: {email, userId, createdAt, expiresAt}
+          leaderboardEntries: new Map(), // key: `${category}:${playerId}`, value: best entry for that player
         };
         return true;
       }
@@ -50,6 +51,8 @@ class DatabaseService {
       await this.db.collection('dailyChallengeSubmissions').createIndex({ date: 1, playerId: 1 }, { unique: true });
       await this.db.collection('dailyChallengeSubmissions').createIndex({ date: 1, isCorrect: 1 });
       await this.db.collection('dailyHexCodes').createIndex({ date: 1 }, { unique: true });
+      await this.db.collection('leaderboardEntries').createIndex({ category: 1, playerId: 1 }, { unique: true });
+      await this.db.collection('leaderboardEntries').createIndex({ category: 1, score: -1 });
       console.log('[Database] Indexes created');
       
       return true;
@@ -64,6 +67,7 @@ class DatabaseService {
         emailVerifications: new Map(),
         emailAccounts: new Map(),
         passwordResetTokens: new Map(),
+        leaderboardEntries: new Map(),
       };
       return true; // Return true to allow server to continue
     }
@@ -399,6 +403,7 @@ class DatabaseService {
         this.inMemoryStorage.friendRequests.clear();
         this.inMemoryStorage.dailyChallengeSubmissions.clear();
         this.inMemoryStorage.dailyHexCodes.clear();
+        this.inMemoryStorage.leaderboardEntries.clear();
         console.log('[Database] In-memory storage cleared');
         return { success: true, message: 'In-memory storage cleared' };
       }
@@ -409,12 +414,14 @@ class DatabaseService {
         const requestsResult = await this.db.collection('friendRequests').deleteMany({});
         const submissionsResult = await this.db.collection('dailyChallengeSubmissions').deleteMany({});
         const hexCodesResult = await this.db.collection('dailyHexCodes').deleteMany({});
+        const leaderboardResult = await this.db.collection('leaderboardEntries').deleteMany({});
         
         console.log('[Database] Database reset complete');
         console.log(`[Database] - Deleted ${playersResult.deletedCount} players`);
         console.log(`[Database] - Deleted ${requestsResult.deletedCount} friend requests`);
         console.log(`[Database] - Deleted ${submissionsResult.deletedCount} daily challenge submissions`);
         console.log(`[Database] - Deleted ${hexCodesResult.deletedCount} daily hex codes`);
+        console.log(`[Database] - Deleted ${leaderboardResult.deletedCount} leaderboard entries`);
         
         return {
           success: true,
@@ -424,6 +431,7 @@ class DatabaseService {
             friendRequests: requestsResult.deletedCount,
             dailyChallengeSubmissions: submissionsResult.deletedCount,
             dailyHexCodes: hexCodesResult.deletedCount,
+            leaderboardEntries: leaderboardResult.deletedCount,
           }
         };
       }
@@ -571,6 +579,60 @@ class DatabaseService {
     }
   }
 
+  // Leaderboard Methods
+  async submitLeaderboardScore({ category, playerId, playerName, score }) {
+    try {
+      if (this.inMemoryStorage) {
+        const key = `${category}:${playerId}`;
+        const existing = this.inMemoryStorage.leaderboardEntries.get(key);
+        // Keep the player's best score, but always refresh their name
+        const entry = {
+          category,
+          playerId,
+          playerName,
+          score: existing && existing.score >= score ? existing.score : score,
+          submittedAt: existing && existing.score >= score ? existing.submittedAt : new Date(),
+        };
+        this.inMemoryStorage.leaderboardEntries.set(key, entry);
+        return { success: true, isBest: !existing || score > existing.score };
+      }
+
+      const entries = this.db.collection('leaderboardEntries');
+      const existing = await entries.findOne({ category, playerId });
+      const isBest = !existing || score > existing.score;
+      await entries.updateOne(
+        { category, playerId },
+        { $set: isBest ? { playerName, score, submittedAt: new Date() } : { playerName } },
+        { upsert: true }
+      );
+      return { success: true, isBest };
+    } catch (error) {
+      console.error('[Database] Error submitting leaderboard score:', error);
+      return { success: false, message: error.message };
+    }
+  }
+
+  async getLeaderboard(category, limit = 20) {
+    try {
+      if (this.inMemoryStorage) {
+        return Array.from(this.inMemoryStorage.leaderboardEntries.values())
+          .filter(entry => entry.category === category)
+          // Highest score first; ties go to whoever got there first
+          .sort((a, b) => b.score - a.score || new Date(a.submittedAt) - new Date(b.submittedAt))
+          .slice(0, limit);
+      }
+
+      return await this.db.collection('leaderboardEntries')
+        .find({ category })
+        .sort({ score: -1, submittedAt: 1 })
+        .limit(limit)
+        .toArray();
+    } catch (error) {
+      console.error('[Database] Error getting leaderboard:', error);
+      return [];
+    }
+  }
+
   // Email Verification Methods
   async createEmailVerification(token, email, userId) {
     if (this.inMemoryStorage) {
@@ -4,6 +4,7 @@ const { Server } = require('socket.io');
 const database = require('./database');
 const emailService = require('./emailService');
 const logger = require('./logger');
+const questionGenerator = require('./questionGenerator');
 // Track friend request attempts for simple rate limiting (in-memory)
 const friendRequestAttempts = new Map(); // key: from->to, value: timestamps array
 
@@ -489,16 +490,79 @@ const io = new Server(server, {
   },
 });
 
-// Matchmaking queues by difficulty
-const matchmakingQueues = {
-  easy: [],
-  medium: [],
-  hard: [],
-};
+// Online play supports the integer-answer tracks only
+const ONLINE_TRACKS = ['whole', 'expressions'];
+
+function getQueueKey(difficulty, track) {
+  return track === 'whole' ? difficulty : `${difficulty}:${track}`;
+}
+
+// Clients choose the difficulty and track, so anything the generator doesn't know is rejected
+function isValidMatchSettings(difficulty, track) {
+  return questionGenerator.DIFFICULTIES.includes(difficulty) && ONLINE_TRACKS.includes(track);
+}
+
+// Matchmaking queues by difficulty (other tracks get their own queue, e.g. 'hard:expressions'), fixed up front
+const matchmakingQueues = {};
+questionGenerator.DIFFICULTIES.forEach(difficulty => {
+  ONLINE_TRACKS.forEach(track => {
+    matchmakingQueues[getQueueKey(difficulty, track)] = [];
+  });
+});
 
 // Active game rooms
 const gameRooms = new Map();
 
+// Every online match is a fixed-length set of questions shared by both players
+const QUESTIONS_PER_MATCH = 10;
+
+// Build the server-owned question set for a new room
+function createRoomQuestions(difficulty, track = 'whole') {
+  const seed = questionGenerator.createSeed();
+  return {
+    seed,
+    track,
+    questionSet: questionGenerator.generateQuestionSet(seed, difficulty, QUESTIONS_PER_MATCH, track),
+    questionIndex: {}, // playerId -> index of the question they're currently on
+  };
+}
+
+// Send a player their current question (without the answer)
+function sendNextQuestion(room, player) {
+  const index = room.questionIndex[player.id] || 0;
+  const equation = room.questionSet[index];
+  if (!equation) return;
+
+  io.to(player.socketId).emit('next-question', {
+    index,
+    total: room.questionSet.length,
+    question: equation.question,
+    num1: equation.num1,
+    num2: equation.num2,
+    operation: equation.operation,
+    answerLength: String(equation.answer).length, // Lets the keypad auto-submit without revealing the answer
+  });
+}
+
+// Record that a player answered every question; completion time is measured server-side
+function markPlayerCompleted(roomId, room, player) {
+  const completionTime = (Date.now() - room.startTime) / 1000;
+  console.log(`[Server] ${player.name} completed all questions in ${completionTime.toFixed(2)}s`);
+
+  room.completionTimes[player.id] = completionTime;
+  room.playersCompleted++;
+
+  io.to(roomId).emit('player-completed', {
+    playerId: player.id,
+    completionTime,
+  });
+
+  // End game if both players completed
+  if (room.playersCompleted >= 2) {
+    endGame(roomId, 'both-completed');
+  }
+}
+
 // Helper function to end a game
 function endGame(roomId, reason) {
   const room = gameRooms.get(roomId);
@@ -586,10 +650,15 @@ io.on('connection', (socket) => {
     socket.emit('friends-status', { onlineFriends });
   });
 
-  socket.on('join-matchmaking', ({ difficulty }) => {
-    console.log(`[Server] ${userName} joined ${difficulty} matchmaking`);
+  socket.on('join-matchmaking', ({ difficulty, track = 'whole' } = {}) => {
+    if (!isValidMatchSettings(difficulty, track)) {
+      console.log(`[Server] ${userName} sent invalid matchmaking settings:`, { difficulty, track });
+      socket.emit('matchmaking-error', { message: 'Unknown difficulty or question type' });
+      return;
+    }
+    console.log(`[Server] ${userName} joined ${difficulty} (${track}) matchmaking`);
     
-    const queue = matchmakingQueues[difficulty];
+    const queue = matchmakingQueues[getQueueKey(difficulty, track)];
     
     // Check if there's someone waiting
     if (queue.length > 0) {
@@ -614,6 +683,7 @@ io.on('connection', (socket) => {
         playersCompleted: 0,
         timerTimeout: null,
         questions: [], // Track all questions and answers
+        ...createRoomQuestions(difficulty, track),
       });
       
       // Notify both players
@@ -637,7 +707,8 @@ io.on('connection', (socket) => {
         if (room) {
           const startTime = Date.now();
           room.startTime = startTime;
-          io.to(roomId).emit('game-start', { startTime });
+          io.to(roomId).emit('game-start', { startTime, totalQuestions: room.questionSet.length });
+          room.players.forEach(p => sendNextQuestion(room, p));
           
           // Set 2-minute (120 seconds) timeout
           room.timerTimeout = setTimeout(() => {
@@ -665,44 +736,59 @@ io.on('connection', (socket) => {
     }
   });
 
-  socket.on('submit-answer', ({ roomId, answer, correct, timeSpent, question, correctAnswer }) => {
+  socket.on('submit-answer', ({ roomId, index, answer, timeSpent }) => {
     const room = gameRooms.get(roomId);
-    if (!room) return;
+    if (!room || room.gameEnded || !room.startTime) return;
     
-    // Find player and update score
+    // Find player and grade against the server's question set
     const player = room.players.find(p => p.socketId === socket.id);
     if (!player) return;
     
+    const questionNumber = room.questionIndex[player.id] || 0;
+    const equation = room.questionSet[questionNumber];
+    if (!equation) return; // Already answered every question
+    
+    // A repeated or late answer meant for an earlier question must not be graded against this one
+    // (older clients don't send the index)
+    if (index !== undefined && index !== questionNumber) {
+      console.log(`[Server] ${userName} answered question ${index + 1} but is on ${questionNumber + 1}, ignoring`);
+      return;
+    }
+    
+    const correct = questionGenerator.isCorrectAnswer(equation, answer);
     if (correct) {
       player.score += 10;
     }
     
-    console.log(`[Server] ${userName} answered (correct: ${correct}), score: ${player.score}`);
+    console.log(`[Server] ${userName} answered question ${questionNumber + 1} (correct: ${correct}), score: ${player.score}`);
     
-    // Track this question and answer
-    if (!room.questionsAnswered) room.questionsAnswered = {};
-    if (!room.questionsAnswered[player.id]) room.questionsAnswered[player.id] = 0;
-    const questionNumber = room.questionsAnswered[player.id];
-    
-    // Store question data - each player has their own questions
+    // Both players share the same questions, so answers are grouped per question
     if (!room.questions[questionNumber]) {
       room.questions[questionNumber] = {
+        question: equation.question,
+        correctAnswer: equation.answer,
         answers: {}
       };
     }
     
-    // Store player's specific question and answer
     room.questions[questionNumber].answers[player.id] = {
       playerId: player.id,
       playerName: player.name,
-      question: question || 'N/A',
-      correctAnswer: correctAnswer || 0,
+      question: equation.question,
+      correctAnswer: equation.answer,
       answer,
       correct,
       timeSpent,
     };
     
-    room.questionsAnswered[player.id]++;
+    room.questionIndex[player.id] = questionNumber + 1;
+    
+    // Tell the player how they did
+    socket.emit('answer-result', {
+      index: questionNumber,
+      correct,
+      correctAnswer: equation.answer,
+    });
     
     // Broadcast answer to room
     io.to(roomId).emit('player-answer', {
@@ -717,30 +803,11 @@ io.on('connection', (socket) => {
       playerId: player.id,
       score: player.score,
     });
-  });
-
-  socket.on('player-completed', ({ roomId, completionTime }) => {
-    const room = gameRooms.get(roomId);
-    if (!room || room.gameEnded) return;
-    
-    const player = room.players.find(p => p.socketId === socket.id);
-    if (!player) return;
-    
-    console.log(`[Server] ${userName} completed all questions in ${completionTime.toFixed(2)}s`);
-    
-    // Store completion time
-    room.completionTimes[player.id] = completionTime;
-    room.playersCompleted++;
-    
-    // Notify all players about completion
-    io.to(roomId).emit('player-completed', {
-      playerId: player.id,
-      completionTime,
-    });
     
-    // End game if both players completed
-    if (room.playersCompleted >= 2) {
-      endGame(roomId, 'both-completed');
+    if (room.questionIndex[player.id] < room.questionSet.length) {
+      sendNextQuestion(room, player);
+    } else {
+      markPlayerCompleted(roomId, room, player);
     }
   });
 
@@ -765,6 +832,10 @@ io.on('connection', (socket) => {
   // Friend Challenge System handlers
   socket.on('send-friend-challenge', async ({ friendId, difficulty }) => {
     console.log(`[Server] ${userName} (userId: ${userId}) challenging friend (friendId: ${friendId}) on ${difficulty}`);
+    if (!isValidMatchSettings(difficulty, 'whole')) {
+      socket.emit('challenge-error', { message: 'Unknown difficulty' });
+      return;
+    }
     
     // Find friend's socket
     console.log(`[Server] Searching for friend socket with userId: ${friendId}`);
@@ -884,6 +955,7 @@ io.on('connection', (socket) => {
       playersCompleted: 0,
       timerTimeout: null,
       questions: [],
+      ...createRoomQuestions(difficulty),
     });
     
     challengerSocket.emit('match-found', {
@@ -913,7 +985,8 @@ io.on('connection', (socket) => {
         const startTime = Date.now();
         room.startTime = startTime;
         console.log(`[Server] Emitting game-start to room ${roomId}`);
-        io.to(roomId).emit('game-start', { startTime });
+        io.to(roomId).emit('game-start', { startTime, totalQuestions: room.questionSet.length });
+        room.players.forEach(p => sendNextQuestion(room, p));
         
         room.timerTimeout = setTimeout(() => {
           endGame(roomId, 'timeout');
@@ -1484,6 +1557,70 @@ app.post('/api/daily-challenge/submit', async (req, res) => {
   }
 });
 
+// Leaderboard categories the client can submit to
+const LEADERBOARD_CATEGORIES = ['survival'];
+
+// Every answer is followed by 1.5s of feedback, so no real run scores faster than this (with rounding slack)
+const MIN_SECONDS_PER_ANSWER = 1;
+
+// A score can't exceed the questions asked, nor the answers that fit in the time played
+const isPlausibleScore = (score, questionCount, duration) =>
+  Number.isInteger(score) && score >= 0 &&
+  Number.isInteger(questionCount) && score <= questionCount &&
+  typeof duration === 'number' && Number.isFinite(duration) &&
+  score * MIN_SECONDS_PER_ANSWER <= duration;
+
+const formatLeaderboardEntries = (entries) => entries.map(e => ({
+  playerId: e.playerId,
+  playerName: e.playerName,
+  score: e.score,
+  submittedAt: e.submittedAt,
+}));
+
+// Get the top entries of a leaderboard
+app.get('/api/leaderboard/:category', async (req, res) => {
+  try {
+    const { category } = req.params;
+    if (!LEADERBOARD_CATEGORIES.includes(category)) {
+      return res.status(404).json({ error: 'Unknown leaderboard' });
+    }
+
+    const entries = await database.getLeaderboard(category);
+    res.json({ category, entries: formatLeaderboardEntries(entries) });
+  } catch (error) {
+    console.error('[API] Error getting leaderboard:', error);
+    res.status(500).json({ error: 'Failed to get leaderboard' });
+  }
+});
+
+// Submit a score; only a player's best score per category is kept
+app.post('/api/leaderboard/submit', async (req, res) => {
+  try {
+    const { category, playerId, playerName, score, questionCount, duration } = req.body;
+
+    if (!category || !playerId || !playerName || score === undefined) {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+    if (!LEADERBOARD_CATEGORIES.includes(category)) {
+      return res.status(404).json({ error: 'Unknown leaderboard' });
+    }
+    if (!isPlausibleScore(score, questionCount, duration)) {
+      return res.status(400).json({ error: 'Invalid score' });
+    }
+
+    const result = await database.submitLeaderboardScore({ category, playerId, playerName, score });
+    if (!result.success) {
+      return res.status(500).json({ error: result.message });
+    }
+
+    const entries = await database.getLeaderboard(category);
+    res.json({ success: true, isBest: result.isBest, entries: formatLeaderboardEntries(entries) });
+  } catch (error) {
+    console.error('[API] Error submitting leaderboard score:', error);
+    res.status(500).json({ error: 'Failed to submit leaderboard score' });
+  }
+});
+
 const PORT = process.env.PORT || 3000;
 
 // Graceful shutdown
@@ -0,0 +1,30 @@
+// Online match questions come from the app's own generator (utils/EquationGenerator.ts and
+// utils/SeededRandom.ts), loaded through tsx (see the start script in package.json), so a room's
+// seed reproduces the exact same question set on any client.
+const { EquationGenerator } = require('../utils/EquationGenerator');
+const { SeededRandom } = require('../utils/SeededRandom');
+const { AnswerChecker } = require('../utils/AnswerChecker');
+
+const DIFFICULTIES = Object.keys(EquationGenerator.DIFFICULTY_PROFILES);
+
+function createSeed() {
+  return SeededRandom.createSeed();
+}
+
+// Same seed + difficulty + count + track always yields the same list.
+// Online play supports the integer-answer tracks: 'whole' and 'expressions'.
+function generateQuestionSet(seed, difficulty, count, track = 'whole') {
+  return EquationGenerator.generateSequence(seed, difficulty, count, track);
+}
+
+// Grade a submitted answer; the client's own verdict is never trusted
+function isCorrectAnswer(equation, answer) {
+  return AnswerChecker.isCorrect(equation, String(answer));
+}
+
+module.exports = {
+  DIFFICULTIES,
+  createSeed,
+  generateQuestionSet,
+  isCorrectAnswer,
+};
@@ -0,0 +1,58 @@
+import { LeaderboardCategory, LeaderboardEntry } from '../types/Player';
+import { PlayerStorageService } from './PlayerStorageService';
+import { getServerUrl } from '../config/ServerConfig';
+
+export class LeaderboardService {
+  /**
+   * Submit a score to a leaderboard; the server only keeps it if it beats the player's best.
+   * The question count and duration (seconds) let the server reject implausible scores.
+   * Returns the updated top entries, or null if the server could not be reached.
+   */
+  static async submitScore(
+    category: LeaderboardCategory,
+    score: number,
+    questionCount: number,
+    duration: number
+  ): Promise<LeaderboardEntry[] | null> {
+    try {
+      const player = await PlayerStorageService.loadPlayerProfile();
+      if (!player) throw new Error('No player profile found');
+
+      const response = await fetch(`${getServerUrl()}/api/leaderboard/submit`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ category, playerId: player.id, playerName: player.username, score, questionCount, duration }),
+      });
+
+      if (!response.ok) {
+        console.error('[Leaderboard] Submit failed with status:', response.status);
+        return null;
+      }
+
+      const data = await response.json();
+      return data.entries ?? [];
+    } catch (error) {
+      console.error('[Leaderboard] Error submitting score:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the top entries of a leaderboard, best first
+   */
+  static async getLeaderboard(category: LeaderboardCategory): Promise<LeaderboardEntry[]> {
+    try {
+      const response = await fetch(`${getServerUrl()}/api/leaderboard/${category}`);
+      if (!response.ok) {
+        console.error('[Leaderboard] Fetch failed with status:', response.status);
+        return [];
+      }
+
+      const data = await response.json();
+      return data.entries ?? [];
+    } catch (error) {
+      console.error('[Leaderboard] Error getting leaderboard:', error);
+      return [];
+    }
+  }
+}
@@ -4,10 +4,17 @@ import {
   PlayerSettings, 
   PlayerCustomization, 
   GameResult, 
+  GameSnapshot,
   Achievement,
+  PracticeSet,
+  ReviewFact,
+  SkillMastery,
+  SurvivalRun,
+  TimesTablesProgress,
   DEFAULT_PLAYER_SETTINGS,
   DEFAULT_PLAYER_CUSTOMIZATION 
 } from '../types/Player';
+import { Survival } from '../utils/Survival';
 
 const STORAGE_KEYS = {
   PLAYER_PROFILE: 'player_profile',
@@ -16,6 +23,7 @@ const STORAGE_KEYS = {
   PLAYER_STATS: 'player_stats',
   APP_VERSION: 'app_version',
   ALL_PROFILES: 'all_player_profiles', // Store all profiles for friend lookups
+  GAME_SNAPSHOT: 'game_snapshot', // The game in progress, if the app was closed mid-round
 };
 
 export class PlayerStorageService {
@@ -220,6 +228,9 @@ export class PlayerStorageService {
       // Convert date strings back to Date objects
       player.createdAt = new Date(player.createdAt);
       player.lastActive = new Date(player.lastActive);
+
+      // Fill in settings added since the profile was created
+      player.settings = { ...DEFAULT_PLAYER_SETTINGS, ...player.settings };
       
       // Ensure achievements have proper date conversion
       player.achievements = player.achievements.map(achievement => ({
@@ -262,6 +273,80 @@ export class PlayerStorageService {
     await this.savePlayerProfile(player);
   }
 
+  // Save the adaptive difficulty model (level is left alone when not given)
+  static async updateSkillMastery(
+    skillMastery: { [skillKey: string]: SkillMastery },
+    adaptiveLevel?: number
+  ): Promise<void> {
+    const player = await this.loadPlayerProfile();
+    if (!player) throw new Error('No player profile found');
+    
+    player.skillMastery = skillMastery;
+    if (adaptiveLevel !== undefined) {
+      player.adaptiveLevel = adaptiveLevel;
+    }
+    await this.savePlayerProfile(player);
+  }
+
+  // Save the missed facts queued for review
+  static async updateReviewFacts(reviewFacts: { [factKey: string]: ReviewFact }): Promise<void> {
+    const player = await this.loadPlayerProfile();
+    if (!player) throw new Error('No player profile found');
+    
+    player.reviewFacts = reviewFacts;
+    await this.savePlayerProfile(player);
+  }
+
+  // Update times tables progress and per-fact results
+  static async updateTimesTablesProgress(timesTablesProgress: TimesTablesProgress): Promise<void> {
+    const player = await this.loadPlayerProfile();
+    if (!player) throw new Error('No player profile found');
+    
+    player.timesTablesProgress = timesTablesProgress;
+    await this.savePlayerProfile(player);
+  }
+
+  // Add the length of a Zen session to the player's practice time
+  static async addZenPracticeTime(seconds: number): Promise<void> {
+    const player = await this.loadPlayerProfile();
+    if (!player) throw new Error('No player profile found');
+    
+    player.zenPracticeTime = (player.zenPracticeTime ?? 0) + seconds;
+    await this.savePlayerProfile(player);
+  }
+
+  // Keep a Survival run if it beats the saved best; returns whether it did
+  static async saveSurvivalRun(run: SurvivalRun): Promise<boolean> {
+    const player = await this.loadPlayerProfile();
+    if (!player) throw new Error('No player profile found');
+    
+    if (!Survival.isNewBest(run, player.survivalBest)) return false;
+    player.survivalBest = run;
+    await this.savePlayerProfile(player);
+    return true;
+  }
+
+  // Add a practice set, or replace the saved set with the same id
+  static async savePracticeSet(practiceSet: PracticeSet): Promise<PracticeSet[]> {
+    const player = await this.loadPlayerProfile();
+    if (!player) throw new Error('No player profile found');
+    
+    const practiceSets = (player.practiceSets || []).filter(saved => saved.id !== practiceSet.id);
+    player.practiceSets = [...practiceSets, practiceSet];
+    await this.savePlayerProfile(player);
+    return player.practiceSets;
+  }
+
+  // Delete a saved practice set
+  static async deletePracticeSet(practiceSetId: string): Promise<PracticeSet[]> {
+    const player = await this.loadPlayerProfile();
+    if (!player) throw new Error('No player profile found');
+    
+    player.practiceSets = (player.practiceSets || []).filter(saved => saved.id !== practiceSetId);
+    await this.savePlayerProfile(player);
+    return player.practiceSets;
+  }
+
   // Add coins to player
   static async addCoins(amount: number): Promise<number> {
     const player = await this.loadPlayerProfile();
@@ -333,6 +418,8 @@ export class PlayerStorageService {
     if (result.averageTime > 0 && (player.fastestAnswerTime === 0 || result.averageTime < player.fastestAnswerTime)) {
       player.fastestAnswerTime = result.averageTime;
     }
+
+    this.updateModeStats(player, result);
     
     // Add coins and experience
     player.coins += result.coinsEarned;
@@ -358,6 +445,37 @@ export class PlayerStorageService {
     await this.saveGameToHistory(result);
   }
 
+  // Save a local or bot match: its coins, mode stats and history entry only. The other side's answers
+  // share the game, so it stays out of the profile's totals, averages and achievements.
+  static async saveMatchResult(result: GameResult): Promise<void> {
+    const player = await this.loadPlayerProfile();
+    if (!player) throw new Error('No player profile found');
+
+    this.updateModeStats(player, result);
+    player.coins += result.coinsEarned;
+    player.totalCoinsEarned += result.coinsEarned;
+    await this.savePlayerProfile(player);
+
+    await this.saveGameToHistory(result);
+  }
+
+  // Update the stats for the result's mode
+  private static updateModeStats(player: PlayerProfile, result: GameResult): void {
+    if (!result.mode) return;
+    const previous = player.modeStats?.[result.mode];
+    player.modeStats = {
+      ...player.modeStats,
+      [result.mode]: {
+        gamesPlayed: (previous?.gamesPlayed ?? 0) + 1,
+        totalCorrectAnswers: (previous?.totalCorrectAnswers ?? 0) + result.score,
+        totalQuestions: (previous?.totalQuestions ?? 0) + result.totalQuestions,
+        bestScore: Math.max(previous?.bestScore ?? 0, result.score),
+        bestAccuracy: Math.max(previous?.bestAccuracy ?? 0, result.accuracy),
+        lastPlayedAt: new Date().toISOString(),
+      },
+    };
+  }
+
   // Save individual game to history
   static async saveGameToHistory(result: GameResult): Promise<void> {
     try {
@@ -396,6 +514,35 @@ export class PlayerStorageService {
     }
   }
 
+  // Save the game in progress, replacing any earlier snapshot
+  static async saveGameSnapshot(snapshot: GameSnapshot): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.GAME_SNAPSHOT, JSON.stringify(snapshot));
+    } catch (error) {
+      console.error('Error saving game snapshot:', error);
+    }
+  }
+
+  // Load the game left in progress, if there is one
+  static async loadGameSnapshot(): Promise<GameSnapshot | null> {
+    try {
+      const snapshotData = await AsyncStorage.getItem(STORAGE_KEYS.GAME_SNAPSHOT);
+      return snapshotData ? JSON.parse(snapshotData) : null;
+    } catch (error) {
+      console.error('Error loading game snapshot:', error);
+      return null;
+    }
+  }
+
+  // Forget the game in progress once it has finished, been quit or been discarded
+  static async clearGameSnapshot(): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(STORAGE_KEYS.GAME_SNAPSHOT);
+    } catch (error) {
+      console.error('Error clearing game snapshot:', error);
+    }
+  }
+
   // Check and unlock achievements
   static async checkAndUnlockAchievements(player: PlayerProfile, result: GameResult): Promise<string[]> {
     const newlyUnlocked: string[] = [];
@@ -943,6 +1090,7 @@ export class PlayerStorageService {
         STORAGE_KEYS.GAME_HISTORY,
         STORAGE_KEYS.ACHIEVEMENTS,
         STORAGE_KEYS.PLAYER_STATS,
+        STORAGE_KEYS.GAME_SNAPSHOT,
       ]);
     } catch (error) {
       console.error('Error deleting player data:', error);
@@ -959,6 +1107,7 @@ export class PlayerStorageService {
         STORAGE_KEYS.GAME_HISTORY,
         STORAGE_KEYS.ACHIEVEMENTS,
         STORAGE_KEYS.PLAYER_STATS,
+        STORAGE_KEYS.GAME_SNAPSHOT,
       ]);
 
       // Clear shop data
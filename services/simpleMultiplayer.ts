@@ -1,6 +1,28 @@
 // Simplified multiplayer service supporting Bot Battle and Local 1v1 modes
 export type GameMode = 'bot' | 'local1v1';
 
+export interface BotGameResults {
+  mode: 'bot';
+  playerScore: number;
+  playerCorrect: number;
+  botScore: number;
+  botCorrect: number;
+  winner: 'player' | 'tie' | 'bot';
+}
+
+export interface LocalGameResults {
+  mode: 'local1v1';
+  player1Name: string;
+  player2Name: string;
+  player1Score: number;
+  player2Score: number;
+  player1Correct: number;
+  player2Correct: number;
+  winner: 'player1' | 'tie' | 'player2';
+}
+
+export type SimpleGameResults = BotGameResults | LocalGameResults;
+
 export class SimpleMultiplayerService {
   private gameMode: GameMode | null = null;
   private playerName: string = '';
@@ -134,11 +156,11 @@ export class SimpleMultiplayerService {
   }
 
   // End the game and get final results
-  endGame(playerScore: number, playerCorrect: number) {
+  endGame(playerScore: number, playerCorrect: number): SimpleGameResults | null {
     this.isActive = false;
     
     if (this.gameMode === 'bot') {
-      const results = {
+      const results: BotGameResults = {
         mode: 'bot',
         playerScore,
         playerCorrect,
@@ -149,7 +171,7 @@ export class SimpleMultiplayerService {
       this.onGameComplete?.(results);
       return results;
     } else if (this.gameMode === 'local1v1') {
-      const results = {
+      const results: LocalGameResults = {
         mode: 'local1v1',
         player1Name: this.player1Name,
         player2Name: this.player2Name,
@@ -1,6 +1,7 @@
 import io, { Socket } from 'socket.io-client';
 import { AuthUser } from './AuthService';
 import { getServerUrl } from '../config/ServerConfig';
+import { Operation, QuestionTrack } from '../types/Equation';
 
 interface PlayerData {
   id: string;
@@ -16,6 +17,24 @@ interface MatchFoundEvent {
 
 interface GameStartEvent {
   startTime: number;
+  totalQuestions?: number;
+}
+
+// Questions come from the server one at a time and never include the answer
+export interface NextQuestionEvent {
+  index: number;
+  total: number;
+  question: string;
+  num1: number;
+  num2: number;
+  operation: Operation;
+  answerLength?: number; // Characters in the answer, for keypad auto-submit; older servers leave it out
+}
+
+interface AnswerResultEvent {
+  index: number;
+  correct: boolean;
+  correctAnswer: number;
 }
 
 interface PlayerAnswerEvent {
@@ -35,6 +54,8 @@ interface GameEndEvent {
   scores: { [playerId: string]: number };
   completionTimes?: { [playerId: string]: number };
   questions?: Array<{
+    question?: string;
+    correctAnswer?: number;
     answers: {
       [playerId: string]: {
         playerId: string;
@@ -58,6 +79,8 @@ export class SocketMultiplayerService {
   // Event callbacks
   onMatchFound?: (data: MatchFoundEvent) => void;
   onGameStart?: (data: GameStartEvent) => void;
+  onNextQuestion?: (data: NextQuestionEvent) => void;
+  onAnswerResult?: (data: AnswerResultEvent) => void;
   onPlayerAnswer?: (data: PlayerAnswerEvent) => void;
   onScoreUpdate?: (data: ScoreUpdateEvent) => void;
   onPlayerCompleted?: (data: { playerId: string; completionTime: number }) => void;
@@ -158,6 +181,16 @@ export class SocketMultiplayerService {
       this.onGameStart?.(data);
     });
 
+    this.socket.on('next-question', (data: NextQuestionEvent) => {
+      console.log('[Socket.IO] Next question:', data.index);
+      this.onNextQuestion?.(data);
+    });
+
+    this.socket.on('answer-result', (data: AnswerResultEvent) => {
+      console.log('[Socket.IO] Answer result:', data);
+      this.onAnswerResult?.(data);
+    });
+
     this.socket.on('player-answer', (data: PlayerAnswerEvent) => {
       console.log('[Socket.IO] Player answered:', data);
       this.onPlayerAnswer?.(data);
@@ -219,6 +252,11 @@ export class SocketMultiplayerService {
       this.onError?.(data.message);
     });
 
+    this.socket.on('matchmaking-error', (data: { message: string }) => {
+      console.log('[Socket.IO] Matchmaking error:', data);
+      this.onError?.(data.message);
+    });
+
     this.socket.on('friends-status', (data: { onlineFriends: string[] }) => {
       console.log('[Socket.IO] Friends status:', data);
       this.onFriendsStatusUpdate?.(data.onlineFriends);
@@ -261,15 +299,15 @@ export class SocketMultiplayerService {
   /**
    * Join matchmaking queue
    */
-  joinMatchmaking(difficulty: 'easy' | 'medium' | 'hard'): void {
+  joinMatchmaking(difficulty: 'easy' | 'medium' | 'hard', track: QuestionTrack = 'whole'): void {
     if (!this.socket || !this.isConnected) {
       console.error('[Socket.IO] Not connected');
       this.onError?.('Not connected to server');
       return;
     }
 
-    console.log('[Socket.IO] Joining matchmaking:', difficulty);
-    this.socket.emit('join-matchmaking', { difficulty });
+    console.log('[Socket.IO] Joining matchmaking:', difficulty, track);
+    this.socket.emit('join-matchmaking', { difficulty, track });
   }
 
   /**
@@ -283,38 +321,20 @@ export class SocketMultiplayerService {
   }
 
   /**
-   * Submit an answer
+   * Submit an answer to question `index` (the server grades it, and ignores answers to any other question)
    */
-  submitAnswer(answer: number, correct: boolean, timeSpent: number, question?: string, correctAnswer?: number): void {
+  submitAnswer(index: number, answer: number, timeSpent: number): void {
     if (!this.socket || !this.isConnected || !this.currentRoom) {
       console.error('[Socket.IO] Cannot submit answer: not in game');
       return;
     }
 
-    console.log('[Socket.IO] Submitting answer:', { answer, correct, timeSpent });
+    console.log('[Socket.IO] Submitting answer:', { index, answer, timeSpent });
     this.socket.emit('submit-answer', {
       roomId: this.currentRoom,
+      index,
       answer,
-      correct,
       timeSpent,
-      question,
-      correctAnswer,
-    });
-  }
-
-  /**
-   * Send completion time when player finishes all 10 questions
-   */
-  sendCompletionTime(completionTime: number): void {
-    if (!this.socket || !this.isConnected || !this.currentRoom) {
-      console.error('[Socket.IO] Cannot send completion time: not in game');
-      return;
-    }
-
-    console.log('[Socket.IO] Sending completion time:', completionTime);
-    this.socket.emit('player-completed', {
-      roomId: this.currentRoom,
-      completionTime,
     });
   }
 
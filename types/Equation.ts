@@ -0,0 +1,86 @@
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+// What the player picks on the difficulty screen; 'adaptive' lets the game choose
+export type DifficultyMode = Difficulty | 'adaptive';
+
+export type Operation = '+' | '-' | '×' | '÷';
+
+// Returns a float in [0, 1), same contract as Math.random
+export type RandomSource = () => number;
+
+// Question families the generator can produce
+export type QuestionTrack = 'whole' | 'integers' | 'fractions' | 'decimals' | 'expressions' | 'algebra' | 'word';
+
+// What the player solves for: the result ("7 × 6 = ?"), a missing operand ("? × 6 = 42") or x ("2x + 3 = 11")
+export type QuestionShape = 'result' | 'missing-operand' | 'linear';
+
+// Player setting for basic facts: always ask for the result, always hide an operand, or a mix
+export type QuestionStyle = 'result' | 'missing' | 'mixed';
+
+// How the player is expected to type the answer; undefined means a whole number
+export type AnswerFormat = 'integer' | 'fraction' | 'decimal';
+
+export interface Fraction {
+  numerator: number; // Carries the sign
+  denominator: number; // Always positive
+}
+
+export interface Equation {
+  question: string; // Display text, e.g. "7 × 8 = ?"
+  answer: number; // For fractions this is the nearest float; grade against exactAnswer
+  num1: number;
+  num2: number;
+  operation: Operation;
+  answerFormat?: AnswerFormat;
+  exactAnswer?: Fraction; // Exact value for fraction and decimal questions
+  answerText?: string; // Canonical answer for feedback, e.g. "7/8" or "0.75"
+  expression?: ExpressionNode; // Set for multi-step questions; num1/num2 are then the first and last operands
+  shape?: QuestionShape; // Undefined means 'result'. For 'linear', num1 is the coefficient and num2 the constant
+  prose?: string; // Word problem text; shown instead of question, which keeps the bare arithmetic
+}
+
+export type ExpressionNode =
+  | { type: 'number'; value: number }
+  | { type: 'operation'; operation: Operation; left: ExpressionNode; right: ExpressionNode };
+
+export interface ExpressionProfile {
+  operations: Operation[];
+  operand: OperandRange;
+  maxProduct: number; // Keeps × results mental-maths sized
+  depth: number; // Number of operations in the expression
+  description: string;
+}
+
+export interface OperandRange {
+  min: number;
+  max: number;
+}
+
+export interface OperationRule {
+  operation: Operation;
+  left: OperandRange; // For ÷ this is the quotient range, so division is always clean
+  right: OperandRange; // For ÷ this is the divisor range
+}
+
+// Decimal operands are scaled integers, e.g. 125 with 2 places is 1.25
+export interface DecimalRule {
+  operation: Operation;
+  left: OperandRange; // For ÷ this is the quotient
+  leftPlaces: number;
+  right: OperandRange; // For ÷ this is the divisor
+  rightPlaces: number;
+}
+
+// One-variable equations "ax + b = c" / "ax - b = c", built from the solution so x is always whole
+export interface LinearRule {
+  coefficient: OperandRange; // a
+  solution: OperandRange; // x
+  constant: OperandRange; // b
+}
+
+export interface DifficultyProfile {
+  operations: OperationRule[];
+  allowNegativeResults: boolean; // When false, subtraction operands are ordered so the result is >= 0
+  distractorSpread: number; // How far wrong answers may sit from the correct one
+  description: string; // Short summary shown on difficulty pickers
+}
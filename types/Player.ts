@@ -1,3 +1,5 @@
+import { DifficultyMode, Operation, QuestionStyle, QuestionTrack } from './Equation';
+
 export interface PlayerProfile {
   currentStreak: number;
   longestStreak: number;
@@ -37,12 +39,119 @@ export interface PlayerProfile {
   friendRequests?: FriendRequest[]; // Pending friend requests
   
   // Times Tables Progress
-  timesTablesProgress?: {
-    currentTable: number;
-    currentMultiplier: number;
-    completedTables: number[];
-    progress: {[key: number]: number}; // Progress for each table
-  };
+  timesTablesProgress?: TimesTablesProgress;
+
+  // Adaptive difficulty: mastery per skill ("operation:range", e.g. "×:1-10") and current level (0-1)
+  skillMastery?: { [skillKey: string]: SkillMastery };
+  adaptiveLevel?: number;
+
+  // Missed facts waiting for spaced-repetition review, keyed by fact (e.g. "7 × 8")
+  reviewFacts?: { [factKey: string]: ReviewFact };
+
+  // Named practice sets built in the practice-set editor
+  practiceSets?: PracticeSet[];
+
+  // Totals and bests for each game mode; the top-level stats cover every mode together
+  modeStats?: { [mode in GameResultMode]?: ModeStats };
+
+  // Longest Survival run so far
+  survivalBest?: SurvivalRun;
+
+  // Seconds practised in untimed Zen sessions, which never count towards scores or coins
+  zenPracticeTime?: number;
+}
+
+export interface SurvivalRun {
+  score: number; // Correct answers before the last life was lost
+  longestStreak: number;
+  difficulty: 'easy' | 'medium' | 'hard'; // Difficulty reached by the end of the run
+  playedAt: string;
+}
+
+// A game in progress, saved as it is played so it can be resumed if the app is closed mid-round
+export interface GameSnapshot {
+  playerId: string;
+  mode: 'classic' | 'zen' | 'survival';
+  seed: number; // Replayed to rebuild the question sequence
+  difficulty: DifficultyMode;
+  track: QuestionTrack;
+  questionIndex: number; // Questions answered so far
+  score: number;
+  elapsed: number; // Seconds played, not counting pauses
+  questions: QuestionRecord[];
+  skillMastery?: { [skillKey: string]: SkillMastery }; // Mastery as updated by the answers so far
+  adaptiveLevel?: number; // In-game level of an adaptive classic game
+  savedAt: string;
+}
+
+export interface ModeStats {
+  gamesPlayed: number;
+  totalCorrectAnswers: number;
+  totalQuestions: number;
+  bestScore: number;
+  bestAccuracy: number;
+  lastPlayedAt: string;
+}
+
+export interface TimesTablesProgress {
+  currentTable: number;
+  currentMultiplier: number;
+  completedTables: number[];
+  progress: {[key: number]: number}; // Progress for each table
+  facts?: { [factKey: string]: TimesTableFact }; // Per-fact results, keyed "table×multiplier" (e.g. "7×8")
+  multiplierOrder?: number[]; // Order the current table is being asked in (shuffled or 1-15)
+  bestTimes?: {[table: number]: number}; // Best time challenge per table, in seconds
+  options?: TimesTableOptions;
+}
+
+export interface TimesTableOptions {
+  shuffle: boolean; // Ask a table's multipliers in a random order
+  commutative: boolean; // Also ask "6 × 7" for 7 × 6
+  division: boolean; // Mix in the inverse facts, e.g. "42 ÷ 7"
+}
+
+export const DEFAULT_TIMES_TABLE_OPTIONS: TimesTableOptions = {
+  shuffle: false,
+  commutative: false,
+  division: false,
+};
+
+export interface TimesTableFact {
+  attempts: number;
+  correct: number;
+  averageTime: number; // seconds per answer
+  lastPracticedAt: string; // ISO timestamp
+}
+
+export interface SkillMastery {
+  attempts: number;
+  correct: number;
+  mastery: number; // 0-1, weighted towards recent answers
+  averageTime: number; // seconds per answer
+  practiceTime?: number; // Total seconds spent answering this skill
+  lastPracticedAt: string; // ISO timestamp
+}
+
+export interface ReviewFact {
+  num1: number;
+  num2: number;
+  operation: Operation;
+  box: number; // Leitner box, 1 = review again soon
+  dueAt: string; // ISO timestamp
+  misses: number;
+  lastMissedAt: string; // ISO timestamp
+  lastReviewedAt?: string; // ISO timestamp
+}
+
+export interface PracticeSet {
+  id: string;
+  name: string;
+  operations: Operation[];
+  operands: number[]; // Every operand is drawn from these (for ÷ the divisor and quotient)
+  questionCount: number;
+  timeLimit: number; // in seconds, 0 = untimed
+  questionStyle: QuestionStyle; // Answer the result, find the missing number, or a mix
+  createdAt: string; // ISO timestamp
 }
 
 export interface FriendRequest {
@@ -63,9 +172,11 @@ export interface PlayerSettings {
   reduceMotion: boolean;
   difficulty: 'easy' | 'medium' | 'hard';
   gameTime: number; // in seconds
+  gameQuestions?: number; // When set, rounds are this many questions with no clock instead of gameTime seconds
   showHints: boolean;
   autoSubmit: boolean;
   keyboardLayout: 'calculator' | 'phone'; // Calculator: 789 top, Phone: 123 top
+  questionStyle: QuestionStyle; // Ask for results, missing operands ("? × 6 = 42") or a mix
 }
 
 export interface PlayerCustomization {
@@ -95,6 +206,19 @@ export interface Achievement {
   progress: number;
 }
 
+// What was played, for history and per-mode stats
+export type GameResultMode =
+  | 'classic'
+  | 'times_tables'
+  | 'survival'
+  | 'review'
+  | 'practice'
+  | 'bubble_pop'
+  | 'bubble_plus'
+  | 'bot_battle'
+  | 'local_1v1'
+  | 'online';
+
 export interface GameResult {
   score: number;
   totalQuestions: number;
@@ -104,6 +228,33 @@ export interface GameResult {
   coinsEarned: number;
   experienceGained: number;
   playedAt: Date;
+  mode?: GameResultMode; // Older results have no mode
+  variant?: string; // Detail within the mode, e.g. the question track or practice-set name
+  hintsUsed?: number; // Hints revealed during the game; older results have none recorded
+  questions?: QuestionRecord[]; // One entry per answered question, in order
+}
+
+// Server leaderboards, each keeping one best score per player
+export type LeaderboardCategory = 'survival';
+
+export interface LeaderboardEntry {
+  playerId: string;
+  playerName: string;
+  score: number;
+  submittedAt: string;
+}
+
+// How one question in a game was answered
+export interface QuestionRecord {
+  question: string; // As displayed, e.g. "7 × 8 = ?"
+  operation: Operation;
+  num1: number;
+  num2: number;
+  givenAnswer: string; // Exactly as typed
+  correctAnswer: string;
+  correct: boolean;
+  time: number; // Seconds from the question appearing to the answer being submitted
+  hintsUsed: number;
 }
 
 export interface PlayerStats {
@@ -132,6 +283,7 @@ export const DEFAULT_PLAYER_SETTINGS: PlayerSettings = {
   showHints: true,
   autoSubmit: false,
   keyboardLayout: 'calculator',
+  questionStyle: 'result',
 };
 
 export const DEFAULT_PLAYER_CUSTOMIZATION: PlayerCustomization = {
@@ -0,0 +1,176 @@
+import { Difficulty, Equation, Operation, OperationRule, OperandRange, RandomSource } from '../types/Equation';
+import { SkillMastery } from '../types/Player';
+import { EquationGenerator } from './EquationGenerator';
+
+export interface AnswerSample {
+  correct: boolean;
+  time: number; // seconds
+}
+
+export class AdaptiveDifficulty {
+  // Number ranges a skill is split into, keyed by the largest operand that matters
+  private static readonly NUMBER_BANDS: OperandRange[] = [
+    { min: 1, max: 10 },
+    { min: 11, max: 20 },
+    { min: 21, max: 50 },
+  ];
+
+  static readonly STARTING_LEVEL = 0.2;
+  private static readonly MULTIPLY_UNLOCK_LEVEL = 0.3;
+  private static readonly DIVIDE_UNLOCK_LEVEL = 0.6;
+
+  private static readonly MASTERY_SMOOTHING = 0.3; // Weight of the newest answer in the mastery average
+  private static readonly UNKNOWN_MASTERY = 0.5; // Assumed mastery for skills never practiced
+  private static readonly PRACTICE_WEIGHT = 0.2; // Mastered skills still come up now and then
+
+  private static readonly RECENT_WINDOW = 8;
+  private static readonly MIN_SAMPLES = 3;
+  private static readonly TARGET_ACCURACY = 0.8;
+  private static readonly TARGET_TIME = 5; // seconds
+  private static readonly MAX_LEVEL_STEP = 0.06;
+
+  /**
+   * Get the mastery key for an equation, e.g. "×:1-10" (or "±×:1-10" when negatives are involved)
+   */
+  static getSkillKey(equation: Equation): string {
+    // The answer may be a hidden operand, so work from the fact itself
+    const result = EquationGenerator.evaluate(equation.num1, equation.operation, equation.num2);
+    // For ÷ the dividend is derived, so the divisor and quotient set the difficulty
+    const size = equation.operation === '÷'
+      ? Math.max(Math.abs(equation.num2), Math.abs(result))
+      : Math.max(Math.abs(equation.num1), Math.abs(equation.num2));
+    const signed = [equation.num1, equation.num2, result].some(value => value < 0) ? '±' : '';
+    return `${signed}${equation.operation}:${this.formatBand(this.getBand(size))}`;
+  }
+
+  /**
+   * Record one answer against its skill and return the updated mastery map
+   */
+  static recordAnswer(
+    mastery: { [skillKey: string]: SkillMastery },
+    equation: Equation,
+    correct: boolean,
+    time: number
+  ): { [skillKey: string]: SkillMastery } {
+    const key = this.getSkillKey(equation);
+    const previous = mastery[key];
+    // A slow correct answer shows less mastery than a quick one
+    const score = !correct ? 0 : time <= this.TARGET_TIME ? 1 : time <= this.TARGET_TIME * 2 ? 0.85 : 0.7;
+    const attempts = (previous?.attempts ?? 0) + 1;
+
+    return {
+      ...mastery,
+      [key]: {
+        attempts,
+        correct: (previous?.correct ?? 0) + (correct ? 1 : 0),
+        mastery: previous
+          ? previous.mastery + (score - previous.mastery) * this.MASTERY_SMOOTHING
+          : score,
+        averageTime: previous
+          ? previous.averageTime + (time - previous.averageTime) / attempts
+          : time,
+        practiceTime: (previous?.practiceTime ?? 0) + time,
+        lastPracticedAt: new Date().toISOString(),
+      },
+    };
+  }
+
+  /**
+   * Nudge the level (0-1) towards the target accuracy and speed of the recent answers
+   */
+  static updateLevel(level: number, recentAnswers: AnswerSample[]): number {
+    const window = recentAnswers.slice(-this.RECENT_WINDOW);
+    if (window.length < this.MIN_SAMPLES) return level;
+
+    const accuracy = window.filter(answer => answer.correct).length / window.length;
+    const averageTime = window.reduce((sum, answer) => sum + answer.time, 0) / window.length;
+
+    // Both terms are in [-1, 1]; accuracy matters more than speed
+    const accuracyTerm = accuracy >= this.TARGET_ACCURACY
+      ? (accuracy - this.TARGET_ACCURACY) / (1 - this.TARGET_ACCURACY)
+      : (accuracy - this.TARGET_ACCURACY) / this.TARGET_ACCURACY;
+    const speedTerm = Math.max(-1, Math.min(1, (this.TARGET_TIME - averageTime) / this.TARGET_TIME));
+    const step = this.MAX_LEVEL_STEP * (0.75 * accuracyTerm + 0.25 * speedTerm);
+
+    return Math.max(0, Math.min(1, level + step));
+  }
+
+  /**
+   * Pick the next equation for the level, favouring the player's weakest skills
+   */
+  static generate(
+    mastery: { [skillKey: string]: SkillMastery },
+    level: number,
+    random: RandomSource = Math.random
+  ): Equation {
+    const candidates = this.getCandidateRules(level);
+    const weights = candidates.map(rule => {
+      const skill = mastery[`${rule.operation}:${this.formatBand(this.getBand(this.getRuleSize(rule)))}`];
+      return this.PRACTICE_WEIGHT + (1 - (skill?.mastery ?? this.UNKNOWN_MASTERY));
+    });
+
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    let roll = random() * total;
+    let chosen = candidates[candidates.length - 1];
+    for (let i = 0; i < candidates.length; i++) {
+      roll -= weights[i];
+      if (roll < 0) {
+        chosen = candidates[i];
+        break;
+      }
+    }
+
+    return EquationGenerator.generateFromRule(chosen, false, random);
+  }
+
+  /**
+   * Map a level onto the nearest fixed difficulty (for rewards and history)
+   */
+  static toDifficulty(level: number): Difficulty {
+    if (level < 1 / 3) return 'easy';
+    if (level < 2 / 3) return 'medium';
+    return 'hard';
+  }
+
+  // One rule per unlocked operation and number band; the band operand stays inside the band
+  private static getCandidateRules(level: number): OperationRule[] {
+    const addMax = Math.round(10 + level * 40); // 10 at level 0, 50 at level 1
+    const factorMax = Math.round(5 + level * 10); // 5 at level 0, 15 at level 1
+    const divisorMax = Math.round(2 + level * 10); // Up to 12
+
+    const operations: { operation: Operation; max: number }[] = [
+      { operation: '+', max: addMax },
+      { operation: '-', max: addMax },
+    ];
+    if (level >= this.MULTIPLY_UNLOCK_LEVEL) operations.push({ operation: '×', max: factorMax });
+    if (level >= this.DIVIDE_UNLOCK_LEVEL) operations.push({ operation: '÷', max: divisorMax });
+
+    const rules: OperationRule[] = [];
+    operations.forEach(({ operation, max }) => {
+      const minimum = operation === '÷' ? 2 : 1;
+      this.NUMBER_BANDS.forEach(band => {
+        if (band.min > max) return;
+        const bandRange = { min: Math.max(band.min, minimum), max: Math.min(band.max, max) };
+        const otherRange = { min: minimum, max: bandRange.max };
+        rules.push(
+          operation === '÷'
+            ? { operation, left: otherRange, right: bandRange }
+            : { operation, left: bandRange, right: otherRange }
+        );
+      });
+    });
+    return rules;
+  }
+
+  private static getRuleSize(rule: OperationRule): number {
+    return rule.operation === '÷' ? rule.right.max : rule.left.max;
+  }
+
+  private static getBand(size: number): OperandRange {
+    return this.NUMBER_BANDS.find(band => size <= band.max) ?? this.NUMBER_BANDS[this.NUMBER_BANDS.length - 1];
+  }
+
+  private static formatBand(band: OperandRange): string {
+    return `${band.min}-${band.max}`;
+  }
+}
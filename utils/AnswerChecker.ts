@@ -0,0 +1,63 @@
+import { Equation, Fraction } from '../types/Equation';
+import { Fractions } from './Fractions';
+
+export class AnswerChecker {
+  /**
+   * Parse typed input ("12", "-3", "0.50", ".5", "6/8", "−1/2") into an exact fraction, or null if malformed
+   */
+  static parse(input: string): Fraction | null {
+    const text = input.replace(/\s+/g, '').replace(/−/g, '-');
+
+    if (/^-?\d+$/.test(text)) {
+      return Fractions.create(parseInt(text, 10), 1);
+    }
+
+    if (/^-?(\d+\.\d*|\.\d+)$/.test(text)) {
+      const negative = text.startsWith('-');
+      const [whole, decimals] = text.replace('-', '').split('.');
+      const scale = Math.pow(10, decimals.length);
+      const scaled = parseInt(whole || '0', 10) * scale + parseInt(decimals || '0', 10);
+      return Fractions.create(negative ? -scaled : scaled, scale);
+    }
+
+    const fraction = text.match(/^(-?\d+)\/(\d+)$/);
+    if (fraction && parseInt(fraction[2], 10) !== 0) {
+      return Fractions.create(parseInt(fraction[1], 10), parseInt(fraction[2], 10));
+    }
+
+    return null;
+  }
+
+  /**
+   * Grade an answer by value, so equivalent forms (6/8 for 3/4, 0.50 for 0.5) count as correct
+   */
+  static isCorrect(equation: Equation, input: string): boolean {
+    const value = this.parse(input);
+    return value !== null && Fractions.equals(value, this.getExactAnswer(equation));
+  }
+
+  static getExactAnswer(equation: Equation): Fraction {
+    return equation.exactAnswer ?? Fractions.fromNumber(equation.answer);
+  }
+
+  /**
+   * Get the answer as shown in feedback ("7/8", "0.75", "12")
+   */
+  static formatAnswer(equation: Equation): string {
+    return equation.answerText ?? `${equation.answer}`;
+  }
+
+  /**
+   * Whole-number answers, typed on the plain keypad
+   */
+  static isWholeNumber(equation: Equation): boolean {
+    return (equation.answerFormat ?? 'integer') === 'integer';
+  }
+
+  /**
+   * Single whole-number facts like "7 × 8" (or "? × 8 = 56") are the ones tracked by mastery and review
+   */
+  static isBasicFact(equation: Equation): boolean {
+    return this.isWholeNumber(equation) && !equation.expression && equation.shape !== 'linear';
+  }
+}
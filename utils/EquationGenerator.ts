@@ -0,0 +1,520 @@
+import {
+  DecimalRule,
+  Difficulty,
+  DifficultyProfile,
+  Equation,
+  Fraction,
+  LinearRule,
+  Operation,
+  OperationRule,
+  OperandRange,
+  QuestionStyle,
+  QuestionTrack,
+  RandomSource,
+} from '../types/Equation';
+import { PracticeSet } from '../types/Player';
+import { ExpressionGenerator } from './ExpressionGenerator';
+import { Fractions } from './Fractions';
+import { SeededRandom } from './SeededRandom';
+import { WordProblemGenerator } from './WordProblemGenerator';
+
+export class EquationGenerator {
+  // Single source of truth for what each difficulty means in every game mode
+  static readonly DIFFICULTY_PROFILES: Record<Difficulty, DifficultyProfile> = {
+    easy: {
+      operations: [
+        { operation: '+', left: { min: 1, max: 10 }, right: { min: 1, max: 10 } },
+        { operation: '-', left: { min: 1, max: 10 }, right: { min: 1, max: 10 } },
+      ],
+      allowNegativeResults: false,
+      distractorSpread: 10,
+      description: 'Numbers 1-10, +/−',
+    },
+    medium: {
+      operations: [
+        { operation: '+', left: { min: 1, max: 20 }, right: { min: 1, max: 20 } },
+        { operation: '-', left: { min: 1, max: 20 }, right: { min: 1, max: 20 } },
+        { operation: '×', left: { min: 1, max: 12 }, right: { min: 1, max: 12 } },
+      ],
+      allowNegativeResults: false,
+      distractorSpread: 20,
+      description: 'Numbers 1-20, +/−/×',
+    },
+    hard: {
+      operations: [
+        { operation: '+', left: { min: 1, max: 50 }, right: { min: 1, max: 50 } },
+        { operation: '-', left: { min: 1, max: 50 }, right: { min: 1, max: 50 } },
+        { operation: '×', left: { min: 2, max: 15 }, right: { min: 2, max: 15 } },
+        { operation: '÷', left: { min: 2, max: 12 }, right: { min: 2, max: 12 } },
+      ],
+      allowNegativeResults: false,
+      distractorSpread: 30,
+      description: 'Numbers 1-50, +/−/×/÷',
+    },
+  };
+
+  // Integers track: negative operands and results on purpose
+  static readonly INTEGER_PROFILES: Record<Difficulty, DifficultyProfile> = {
+    easy: {
+      operations: [
+        { operation: '+', left: { min: -10, max: 10 }, right: { min: -10, max: 10 } },
+        { operation: '-', left: { min: -10, max: 10 }, right: { min: -10, max: 10 } },
+      ],
+      allowNegativeResults: true,
+      distractorSpread: 10,
+      description: 'Numbers −10 to 10, +/−',
+    },
+    medium: {
+      operations: [
+        { operation: '+', left: { min: -20, max: 20 }, right: { min: -20, max: 20 } },
+        { operation: '-', left: { min: -20, max: 20 }, right: { min: -20, max: 20 } },
+        { operation: '×', left: { min: -12, max: 12 }, right: { min: -12, max: 12 } },
+      ],
+      allowNegativeResults: true,
+      distractorSpread: 20,
+      description: 'Numbers −20 to 20, +/−/×',
+    },
+    hard: {
+      operations: [
+        { operation: '+', left: { min: -50, max: 50 }, right: { min: -50, max: 50 } },
+        { operation: '-', left: { min: -50, max: 50 }, right: { min: -50, max: 50 } },
+        { operation: '×', left: { min: -15, max: 15 }, right: { min: -15, max: 15 } },
+        { operation: '÷', left: { min: -12, max: 12 }, right: { min: 2, max: 12 } },
+      ],
+      allowNegativeResults: true,
+      distractorSpread: 30,
+      description: 'Numbers −50 to 50, +/−/×/÷',
+    },
+  };
+
+  // Easy fractions share a denominator, medium ones have related denominators, hard ones any
+  private static readonly FRACTION_DENOMINATORS: Record<Difficulty, number[]> = {
+    easy: [2, 3, 4, 5, 6, 8],
+    medium: [2, 3, 4, 5, 6, 8, 10, 12],
+    hard: [2, 3, 4, 5, 6, 7, 8, 9, 10, 12],
+  };
+
+  private static readonly LINEAR_RULES: Record<Difficulty, LinearRule> = {
+    easy: { coefficient: { min: 1, max: 1 }, solution: { min: 1, max: 10 }, constant: { min: 1, max: 10 } },
+    medium: { coefficient: { min: 2, max: 5 }, solution: { min: 1, max: 10 }, constant: { min: 1, max: 20 } },
+    hard: { coefficient: { min: 2, max: 9 }, solution: { min: 1, max: 12 }, constant: { min: 1, max: 30 } },
+  };
+
+  private static readonly TRACK_DESCRIPTIONS: Record<'fractions' | 'decimals' | 'algebra', Record<Difficulty, string>> = {
+    fractions: {
+      easy: 'Same denominators, +/−',
+      medium: 'Related denominators, +/−',
+      hard: 'Any denominators, +/−/×/÷',
+    },
+    decimals: {
+      easy: 'One decimal place, +/−',
+      medium: 'Two decimal places, +/−/×',
+      hard: 'Two decimal places, +/−/×/÷',
+    },
+    algebra: {
+      easy: 'x + b = c',
+      medium: 'ax ± b = c, a up to 5',
+      hard: 'ax ± b = c, a up to 9',
+    },
+  };
+
+  private static readonly DECIMAL_RULES: Record<Difficulty, DecimalRule[]> = {
+    easy: [
+      { operation: '+', left: { min: 1, max: 99 }, leftPlaces: 1, right: { min: 1, max: 99 }, rightPlaces: 1 },
+      { operation: '-', left: { min: 1, max: 99 }, leftPlaces: 1, right: { min: 1, max: 99 }, rightPlaces: 1 },
+    ],
+    medium: [
+      { operation: '+', left: { min: 1, max: 999 }, leftPlaces: 2, right: { min: 1, max: 999 }, rightPlaces: 2 },
+      { operation: '-', left: { min: 1, max: 999 }, leftPlaces: 2, right: { min: 1, max: 999 }, rightPlaces: 2 },
+      { operation: '×', left: { min: 1, max: 99 }, leftPlaces: 1, right: { min: 2, max: 9 }, rightPlaces: 0 },
+    ],
+    hard: [
+      { operation: '+', left: { min: 1, max: 9999 }, leftPlaces: 2, right: { min: 1, max: 9999 }, rightPlaces: 2 },
+      { operation: '-', left: { min: 1, max: 9999 }, leftPlaces: 2, right: { min: 1, max: 9999 }, rightPlaces: 2 },
+      { operation: '×', left: { min: 1, max: 99 }, leftPlaces: 1, right: { min: 1, max: 99 }, rightPlaces: 1 },
+      { operation: '÷', left: { min: 1, max: 99 }, leftPlaces: 1, right: { min: 2, max: 9 }, rightPlaces: 0 },
+    ],
+  };
+
+  /**
+   * Generate an equation from a question family ('whole' is the regular integer generator)
+   */
+  static generateForTrack(track: QuestionTrack, difficulty: Difficulty, random: RandomSource = Math.random): Equation {
+    switch (track) {
+      case 'integers':
+        return this.generateInteger(difficulty, random);
+      case 'fractions':
+        return this.generateFraction(difficulty, random);
+      case 'decimals':
+        return this.generateDecimal(difficulty, random);
+      case 'expressions':
+        return ExpressionGenerator.generate(difficulty, random);
+      case 'algebra':
+        return this.generateLinear(difficulty, random);
+      case 'word':
+        return WordProblemGenerator.fromEquation(this.generate(difficulty, random), random);
+      default:
+        return this.generate(difficulty, random);
+    }
+  }
+
+  /**
+   * Generate a random equation for the given difficulty
+   */
+  static generate(difficulty: Difficulty, random: RandomSource = Math.random): Equation {
+    const profile = this.DIFFICULTY_PROFILES[difficulty];
+    const rule = profile.operations[Math.floor(random() * profile.operations.length)];
+    return this.generateFromRule(rule, profile.allowNegativeResults, random);
+  }
+
+  /**
+   * Generate a reproducible list of equations: the same seed, difficulty and track always give the same list
+   */
+  static generateSequence(seed: number, difficulty: Difficulty, count: number, track: QuestionTrack = 'whole'): Equation[] {
+    const random = SeededRandom.create(seed);
+    const equations: Equation[] = [];
+    for (let i = 0; i < count; i++) {
+      equations.push(this.generateForTrack(track, difficulty, random));
+    }
+    return equations;
+  }
+
+  /**
+   * Generate an equation for a single operation rule
+   */
+  static generateFromRule(
+    rule: OperationRule,
+    allowNegativeResults: boolean = false,
+    random: RandomSource = Math.random
+  ): Equation {
+    let num1 = this.randomInRange(rule.left, random);
+    let num2 = this.randomInRange(rule.right, random);
+
+    if (rule.operation === '÷') {
+      // Divisor ranges never include zero; when negatives are allowed, flip its sign half the time
+      if (allowNegativeResults && random() < 0.5) {
+        num2 = -num2;
+      }
+      // Build the dividend from quotient × divisor so division is always clean
+      return this.create(num1 * num2, '÷', num2);
+    }
+
+    if (rule.operation === '-' && !allowNegativeResults && num1 < num2) {
+      [num1, num2] = [num2, num1];
+    }
+
+    return this.create(num1, rule.operation, num2);
+  }
+
+  /**
+   * Generate a question from a practice set. The dividend of ÷ and the minuend of - are built
+   * so the other operand and the answer both come from the set's operands.
+   */
+  static generateFromPracticeSet(
+    practiceSet: Pick<PracticeSet, 'operations' | 'operands' | 'questionStyle'>,
+    random: RandomSource = Math.random
+  ): Equation {
+    const operation = this.pick(practiceSet.operations, random);
+    const left = this.pick(practiceSet.operands, random);
+    const right = this.pick(practiceSet.operands, random);
+
+    let equation: Equation;
+    if (operation === '÷') {
+      equation = this.create(left * right, '÷', right);
+    } else if (operation === '-') {
+      equation = this.create(left + right, '-', right);
+    } else {
+      equation = this.create(left, operation, right);
+    }
+    return this.applyQuestionStyle(equation, practiceSet.questionStyle, random);
+  }
+
+  /**
+   * Generate an integer question that may have negative operands and results
+   */
+  static generateInteger(difficulty: Difficulty, random: RandomSource = Math.random): Equation {
+    const profile = this.INTEGER_PROFILES[difficulty];
+    const rule = profile.operations[Math.floor(random() * profile.operations.length)];
+    return { ...this.generateFromRule(rule, profile.allowNegativeResults, random), answerFormat: 'integer' };
+  }
+
+  /**
+   * Generate a one-variable equation such as "2x + 3 = 11, x = ?"
+   */
+  static generateLinear(difficulty: Difficulty, random: RandomSource = Math.random): Equation {
+    const rule = this.LINEAR_RULES[difficulty];
+    const coefficient = this.randomInRange(rule.coefficient, random);
+    const solution = this.randomInRange(rule.solution, random);
+    const constant = this.randomInRange(rule.constant, random);
+    // Subtract only when the right-hand side stays positive
+    const operation: Operation = random() < 0.5 && coefficient * solution > constant ? '-' : '+';
+    const total = this.evaluate(coefficient * solution, operation, constant);
+    const term = coefficient === 1 ? 'x' : `${coefficient}x`;
+
+    return {
+      question: `${term} ${operation} ${constant} = ${total}, x = ?`,
+      answer: solution,
+      num1: coefficient,
+      num2: constant,
+      operation,
+      shape: 'linear',
+    };
+  }
+
+  /**
+   * Apply the player's question style to a basic fact; other questions are returned unchanged
+   */
+  static applyQuestionStyle(equation: Equation, style: QuestionStyle, random: RandomSource = Math.random): Equation {
+    if (
+      style === 'result' ||
+      equation.shape ||
+      equation.expression ||
+      equation.prose ||
+      equation.answerFormat === 'fraction' ||
+      equation.answerFormat === 'decimal'
+    ) {
+      return equation;
+    }
+    if (style === 'mixed' && random() < 0.5) {
+      return equation;
+    }
+    return this.toMissingOperand(equation, random() < 0.5 ? 'left' : 'right');
+  }
+
+  /**
+   * Hide one operand: "? × 6 = 42" or "15 - ? = 9". The answer becomes the hidden operand.
+   */
+  static toMissingOperand(equation: Equation, hide: 'left' | 'right'): Equation {
+    const { num1, num2, operation } = equation;
+    const result = this.evaluate(num1, operation, num2) + 0;
+
+    // Avoid questions with many answers: "? × 0 = 0" and "0 ÷ ? = 0"
+    let side = hide;
+    if (operation === '×' && (side === 'left' ? num2 : num1) === 0) side = side === 'left' ? 'right' : 'left';
+    if (operation === '÷' && num1 === 0) side = 'left';
+    if (operation === '×' && (side === 'left' ? num2 : num1) === 0) return equation;
+
+    const left = side === 'left' ? '?' : `${num1}`;
+    const right = side === 'right' ? '?' : num2 < 0 ? `(${num2})` : `${num2}`;
+    return {
+      ...equation,
+      question: `${left} ${operation} ${right} = ${result}`,
+      answer: side === 'left' ? num1 : num2,
+      shape: 'missing-operand',
+    };
+  }
+
+  /**
+   * Generate a fraction question such as "3/4 + 1/8 = ?" (answer in lowest terms)
+   */
+  static generateFraction(difficulty: Difficulty, random: RandomSource = Math.random): Equation {
+    const denominators = this.FRACTION_DENOMINATORS[difficulty];
+    const operations: Operation[] = difficulty === 'hard' ? ['+', '-', '×', '÷'] : ['+', '-'];
+    const operation = this.pick(operations, random);
+
+    const leftDenominator = this.pick(denominators, random);
+    let rightDenominator = leftDenominator;
+    if (difficulty === 'medium') {
+      rightDenominator = this.pick(
+        denominators.filter(d => d % leftDenominator === 0 || leftDenominator % d === 0),
+        random
+      );
+    } else if (difficulty === 'hard') {
+      rightDenominator = this.pick(denominators, random);
+    }
+
+    // Operands stay unsimplified so "2/4 + 1/4" reads as written
+    let left: Fraction = {
+      numerator: this.randomInRange({ min: 1, max: leftDenominator - 1 }, random),
+      denominator: leftDenominator,
+    };
+    let right: Fraction = {
+      numerator: this.randomInRange({ min: 1, max: rightDenominator - 1 }, random),
+      denominator: rightDenominator,
+    };
+    if (operation === '-' && Fractions.compare(left, right) < 0) {
+      [left, right] = [right, left];
+    }
+
+    const result = operation === '+' ? Fractions.add(left, right)
+      : operation === '-' ? Fractions.subtract(left, right)
+      : operation === '×' ? Fractions.multiply(left, right)
+      : Fractions.divide(left, right);
+
+    return {
+      question: `${left.numerator}/${left.denominator} ${operation} ${right.numerator}/${right.denominator} = ?`,
+      answer: Fractions.toNumber(result),
+      num1: Fractions.toNumber(left),
+      num2: Fractions.toNumber(right),
+      operation,
+      answerFormat: 'fraction',
+      exactAnswer: result,
+      answerText: Fractions.format(result),
+    };
+  }
+
+  /**
+   * Generate a decimal question such as "2.5 + 1.75 = ?", computed on scaled integers so it is exact
+   */
+  static generateDecimal(difficulty: Difficulty, random: RandomSource = Math.random): Equation {
+    const rule = this.pick(this.DECIMAL_RULES[difficulty], random);
+    let left = this.randomInRange(rule.left, random);
+    let right = this.randomInRange(rule.right, random);
+    let leftPlaces = rule.leftPlaces;
+    let rightPlaces = rule.rightPlaces;
+    let resultScaled: number;
+    let resultPlaces: number;
+
+    if (rule.operation === '×') {
+      resultScaled = left * right;
+      resultPlaces = rule.leftPlaces + rule.rightPlaces;
+    } else if (rule.operation === '÷') {
+      // Build the dividend from quotient × divisor so the answer terminates
+      resultScaled = left;
+      resultPlaces = rule.leftPlaces;
+      left = left * right;
+      leftPlaces = rule.leftPlaces + rule.rightPlaces;
+    } else {
+      resultPlaces = Math.max(rule.leftPlaces, rule.rightPlaces);
+      const alignedLeft = left * Math.pow(10, resultPlaces - rule.leftPlaces);
+      const alignedRight = right * Math.pow(10, resultPlaces - rule.rightPlaces);
+      if (rule.operation === '-' && alignedLeft < alignedRight) {
+        [left, right, leftPlaces, rightPlaces] = [right, left, rightPlaces, leftPlaces];
+      }
+      resultScaled = rule.operation === '+'
+        ? alignedLeft + alignedRight
+        : Math.abs(alignedLeft - alignedRight);
+    }
+
+    const leftText = Fractions.formatDecimal(left, leftPlaces);
+    const rightText = Fractions.formatDecimal(right, rightPlaces);
+    const exactAnswer = Fractions.create(resultScaled, Math.pow(10, resultPlaces));
+
+    return {
+      question: `${leftText} ${rule.operation} ${rightText} = ?`,
+      answer: Fractions.toNumber(exactAnswer),
+      num1: parseFloat(leftText),
+      num2: parseFloat(rightText),
+      operation: rule.operation,
+      answerFormat: 'decimal',
+      exactAnswer,
+      answerText: Fractions.formatDecimal(resultScaled, resultPlaces),
+    };
+  }
+
+  /**
+   * Build an equation from explicit operands (used by times tables and replays)
+   */
+  static create(num1: number, operation: Operation, num2: number): Equation {
+    return {
+      question: this.formatQuestion(num1, operation, num2),
+      answer: this.evaluate(num1, operation, num2) + 0, // + 0 turns -0 (e.g. 0 × -8) into 0
+      num1,
+      num2,
+      operation,
+    };
+  }
+
+  /**
+   * Evaluate a single binary operation
+   */
+  static evaluate(num1: number, operation: Operation, num2: number): number {
+    switch (operation) {
+      case '+':
+        return num1 + num2;
+      case '-':
+        return num1 - num2;
+      case '×':
+        return num1 * num2;
+      case '÷':
+        return num1 / num2;
+    }
+  }
+
+  /**
+   * Format the question text shown to the player
+   */
+  static formatQuestion(num1: number, operation: Operation, num2: number): string {
+    // Bracket a negative right operand so "5 - (-3)" doesn't read as "5 - -3"
+    const right = num2 < 0 ? `(${num2})` : `${num2}`;
+    return `${num1} ${operation} ${right} = ?`;
+  }
+
+  /**
+   * Generate unique wrong answers close to the correct one (for bubble modes).
+   * Only whole-number answers get distractors; any other answer gets none.
+   */
+  static generateDistractors(
+    equation: Equation,
+    count: number,
+    difficulty: Difficulty,
+    random: RandomSource = Math.random
+  ): number[] {
+    if (!Number.isInteger(equation.answer)) return [];
+
+    const profile = this.DIFFICULTY_PROFILES[difficulty];
+    const distractors = new Set<number>();
+    // A negative answer (integers track) gets negative neighbours too
+    const allowNegative = profile.allowNegativeResults || equation.answer < 0;
+    const isValid = (value: number) =>
+      value !== equation.answer &&
+      Number.isInteger(value) &&
+      (allowNegative || value >= 0);
+
+    // Start with the classic slip of applying the wrong operation, if it's plausible
+    const wrongOperation: Operation = equation.operation === '×' ? '+' : equation.operation === '+' ? '×' : equation.operation;
+    if (wrongOperation !== equation.operation && !equation.expression && !equation.shape) {
+      const slip = this.evaluate(equation.num1, wrongOperation, equation.num2);
+      if (isValid(slip) && Math.abs(slip - equation.answer) <= profile.distractorSpread) {
+        distractors.add(slip);
+      }
+    }
+
+    let attempts = 0;
+    while (distractors.size < count && attempts < count * 50) {
+      attempts++;
+      const offset = this.randomInRange({ min: 1, max: profile.distractorSpread }, random);
+      const candidate = equation.answer + (random() < 0.5 ? -offset : offset);
+      if (isValid(candidate)) {
+        distractors.add(candidate);
+      }
+    }
+
+    // Fallback for tiny answer spaces: walk outward from the answer, above it first. Every value above a
+    // whole answer is valid once it reaches 0, so this ends
+    for (let step = 1; distractors.size < count; step++) {
+      if (isValid(equation.answer + step)) distractors.add(equation.answer + step);
+      if (distractors.size < count && isValid(equation.answer - step)) distractors.add(equation.answer - step);
+    }
+
+    return Array.from(distractors).slice(0, count);
+  }
+
+  /**
+   * Get the short difficulty summary shown on difficulty pickers
+   */
+  static getDifficultyDescription(difficulty: Difficulty, track: QuestionTrack = 'whole'): string {
+    switch (track) {
+      case 'integers':
+        return this.INTEGER_PROFILES[difficulty].description;
+      case 'fractions':
+      case 'decimals':
+      case 'algebra':
+        return this.TRACK_DESCRIPTIONS[track][difficulty];
+      case 'expressions':
+        return ExpressionGenerator.EXPRESSION_PROFILES[difficulty].description;
+      case 'word':
+        return `Stories, ${this.DIFFICULTY_PROFILES[difficulty].description}`;
+      default:
+        return this.DIFFICULTY_PROFILES[difficulty].description;
+    }
+  }
+
+  private static randomInRange(range: OperandRange, random: RandomSource): number {
+    return Math.floor(random() * (range.max - range.min + 1)) + range.min;
+  }
+
+  private static pick<T>(items: T[], random: RandomSource): T {
+    return items[Math.floor(random() * items.length)];
+  }
+}
@@ -0,0 +1,143 @@
+import {
+  Difficulty,
+  Equation,
+  ExpressionNode,
+  ExpressionProfile,
+  Operation,
+  OperandRange,
+  RandomSource,
+} from '../types/Equation';
+
+export class ExpressionGenerator {
+  // Depth is the difficulty knob: more operations means more steps to hold in your head.
+  // The server imports this module too (server/questionGenerator.js), so online games use the same profiles.
+  static readonly EXPRESSION_PROFILES: Record<Difficulty, ExpressionProfile> = {
+    easy: {
+      operations: ['+', '-', '×'],
+      operand: { min: 1, max: 10 },
+      maxProduct: 50,
+      depth: 2,
+      description: 'Two steps, +/−/×',
+    },
+    medium: {
+      operations: ['+', '-', '×', '÷'],
+      operand: { min: 1, max: 12 },
+      maxProduct: 100,
+      depth: 3,
+      description: 'Three steps, +/−/×/÷',
+    },
+    hard: {
+      operations: ['+', '-', '×', '÷'],
+      operand: { min: 1, max: 20 },
+      maxProduct: 144,
+      depth: 4,
+      description: 'Four steps, +/−/×/÷',
+    },
+  };
+
+  private static readonly PRECEDENCE: Record<Operation, number> = { '+': 1, '-': 1, '×': 2, '÷': 2 };
+
+  /**
+   * Generate a multi-step expression such as "(4 + 3) × 2 - 5 = ?".
+   * Every intermediate result is a whole number >= 0, so the answer is exact.
+   */
+  static generate(
+    difficulty: Difficulty,
+    random: RandomSource = Math.random,
+    depth: number = this.EXPRESSION_PROFILES[difficulty].depth
+  ): Equation {
+    const profile = this.EXPRESSION_PROFILES[difficulty];
+    const expression = this.build(Math.max(1, depth), profile, random);
+    const root = expression as Extract<ExpressionNode, { type: 'operation' }>;
+
+    return {
+      question: `${this.format(expression)} = ?`,
+      answer: this.evaluate(expression),
+      num1: this.firstOperand(expression),
+      num2: this.lastOperand(expression),
+      operation: root.operation,
+      expression,
+    };
+  }
+
+  /**
+   * Evaluate an expression tree
+   */
+  static evaluate(node: ExpressionNode): number {
+    if (node.type === 'number') return node.value;
+    const left = this.evaluate(node.left);
+    const right = this.evaluate(node.right);
+    switch (node.operation) {
+      case '+':
+        return left + right;
+      case '-':
+        return left - right;
+      case '×':
+        return left * right;
+      case '÷':
+        return left / right;
+    }
+  }
+
+  /**
+   * Format an expression with only the parentheses it needs
+   */
+  static format(node: ExpressionNode, parent?: Operation, isRightChild: boolean = false): string {
+    if (node.type === 'number') return `${node.value}`;
+
+    const text = `${this.format(node.left, node.operation, false)} ${node.operation} ${this.format(node.right, node.operation, true)}`;
+    if (!parent) return text;
+
+    const precedence = this.PRECEDENCE[node.operation];
+    const parentPrecedence = this.PRECEDENCE[parent];
+    // "8 - (3 + 2)" and "24 ÷ (6 × 2)" need brackets; "8 + (3 - 2)" reads the same without
+    const needsParentheses = precedence < parentPrecedence ||
+      (precedence === parentPrecedence && isRightChild && (parent === '-' || parent === '÷'));
+    return needsParentheses ? `(${text})` : text;
+  }
+
+  // Split the operations randomly between the two sides, then pick an operation that keeps the result clean
+  private static build(operations: number, profile: ExpressionProfile, random: RandomSource): ExpressionNode {
+    if (operations === 0) {
+      return { type: 'number', value: this.randomInRange(profile.operand, random) };
+    }
+
+    const leftOperations = Math.floor(random() * operations);
+    const rightOperations = operations - 1 - leftOperations;
+    let left = this.build(leftOperations, profile, random);
+    let right = this.build(rightOperations, profile, random);
+    const leftValue = this.evaluate(left);
+    const rightValue = this.evaluate(right);
+
+    // ÷ only divides by a single number that goes in exactly
+    const divisors = rightOperations === 0 && leftValue > 0
+      ? [2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12].filter(divisor => leftValue % divisor === 0)
+      : [];
+    const allowed = profile.operations.filter(operation =>
+      (operation !== '×' || leftValue * rightValue <= profile.maxProduct) &&
+      (operation !== '÷' || divisors.length > 0)
+    );
+    const operation = allowed[Math.floor(random() * allowed.length)];
+
+    if (operation === '-' && leftValue < rightValue) {
+      [left, right] = [right, left];
+    }
+    if (operation === '÷') {
+      right = { type: 'number', value: divisors[Math.floor(random() * divisors.length)] };
+    }
+
+    return { type: 'operation', operation, left, right };
+  }
+
+  private static firstOperand(node: ExpressionNode): number {
+    return node.type === 'number' ? node.value : this.firstOperand(node.left);
+  }
+
+  private static lastOperand(node: ExpressionNode): number {
+    return node.type === 'number' ? node.value : this.lastOperand(node.right);
+  }
+
+  private static randomInRange(range: OperandRange, random: RandomSource): number {
+    return Math.floor(random() * (range.max - range.min + 1)) + range.min;
+  }
+}
@@ -0,0 +1,82 @@
+import { Fraction } from '../types/Equation';
+
+export class Fractions {
+  /**
+   * Create a fraction in lowest terms with the sign on the numerator
+   */
+  static create(numerator: number, denominator: number): Fraction {
+    if (denominator === 0) throw new Error('Fraction denominator cannot be zero');
+    const sign = denominator < 0 ? -1 : 1;
+    const divisor = this.gcd(numerator, denominator) || 1;
+    return {
+      numerator: (sign * numerator) / divisor,
+      denominator: Math.abs(denominator) / divisor,
+    };
+  }
+
+  /**
+   * Convert a whole number or finite decimal (e.g. 0.75) to an exact fraction
+   */
+  static fromNumber(value: number): Fraction {
+    const decimals = value.toString().split('.')[1] ?? '';
+    const scale = Math.pow(10, decimals.length);
+    return this.create(Math.round(value * scale), scale);
+  }
+
+  static add(a: Fraction, b: Fraction): Fraction {
+    return this.create(a.numerator * b.denominator + b.numerator * a.denominator, a.denominator * b.denominator);
+  }
+
+  static subtract(a: Fraction, b: Fraction): Fraction {
+    return this.create(a.numerator * b.denominator - b.numerator * a.denominator, a.denominator * b.denominator);
+  }
+
+  static multiply(a: Fraction, b: Fraction): Fraction {
+    return this.create(a.numerator * b.numerator, a.denominator * b.denominator);
+  }
+
+  static divide(a: Fraction, b: Fraction): Fraction {
+    return this.create(a.numerator * b.denominator, a.denominator * b.numerator);
+  }
+
+  /**
+   * Negative if a < b, zero if equal (including equivalent forms like 2/4 and 1/2), positive if a > b
+   */
+  static compare(a: Fraction, b: Fraction): number {
+    return a.numerator * b.denominator - b.numerator * a.denominator;
+  }
+
+  static equals(a: Fraction, b: Fraction): boolean {
+    return this.compare(a, b) === 0;
+  }
+
+  static toNumber(fraction: Fraction): number {
+    return fraction.numerator / fraction.denominator;
+  }
+
+  /**
+   * Format as "n/d", or a whole number when the denominator is 1
+   */
+  static format(fraction: Fraction): string {
+    return fraction.denominator === 1
+      ? `${fraction.numerator}`
+      : `${fraction.numerator}/${fraction.denominator}`;
+  }
+
+  /**
+   * Format a scaled integer as a decimal without trailing zeros (125, 2 → "1.25"; 120, 2 → "1.2")
+   */
+  static formatDecimal(scaled: number, places: number): string {
+    const text = (scaled / Math.pow(10, places)).toFixed(places);
+    return places > 0 ? text.replace(/\.?0+$/, '') : text;
+  }
+
+  private static gcd(a: number, b: number): number {
+    let x = Math.abs(a);
+    let y = Math.abs(b);
+    while (y !== 0) {
+      [x, y] = [y, x % y];
+    }
+    return x;
+  }
+}
@@ -0,0 +1,37 @@
+import { GameSnapshot } from '../types/Player';
+import { Survival } from './Survival';
+
+export interface ResumeProgress {
+  questionIndex: number; // Questions answered, so the next one to show
+  score: number;
+  hintsUsed: number;
+  livesLeft: number;
+  streak: number;
+  longestStreak: number;
+}
+
+export class GameResume {
+  /**
+   * Where a saved game stands, worked out from its answered questions alone. A snapshot can be taken
+   * while an answer's feedback is showing, so the question count and score follow the records rather
+   * than the counters the game had moved on by then.
+   */
+  static getProgress(snapshot: GameSnapshot): ResumeProgress {
+    let streak = 0;
+    let longestStreak = 0;
+    snapshot.questions.forEach(record => {
+      streak = record.correct ? streak + 1 : 0;
+      longestStreak = Math.max(longestStreak, streak);
+    });
+    const correct = snapshot.questions.filter(record => record.correct).length;
+
+    return {
+      questionIndex: snapshot.questions.length,
+      score: correct,
+      hintsUsed: snapshot.questions.reduce((total, record) => total + record.hintsUsed, 0),
+      livesLeft: Survival.STARTING_LIVES - (snapshot.questions.length - correct),
+      streak,
+      longestStreak,
+    };
+  }
+}
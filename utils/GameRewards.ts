@@ -1,4 +1,4 @@
-import { GameResult } from '../types/Player';
+import { GameResult, GameResultMode } from '../types/Player';
 
 export interface RewardCalculation {
   coins: number;
@@ -41,6 +41,22 @@ export class GameRewards {
     { threshold: 5, multiplier: 1.1, name: 'Good Speed!' },
   ];
 
+  // Each hint revealed costs coins, up to a share of what the game earned
+  private static readonly HINT_PENALTY_COINS = 2;
+  private static readonly MAX_HINT_PENALTY = 0.5;
+
+  // Rewards are tuned for a 60-second round; longer rounds earn with diminishing returns
+  // and shorter rounds get a smaller participation minimum, so no length pays more per minute
+  static readonly STANDARD_ROUND_SECONDS = 60;
+  private static readonly MINIMUM_REWARD = 10;
+
+  // Bubble modes: bubble points turn into extra coins, and the faster Bubble Plus pays more
+  private static readonly BUBBLE_POINTS_PER_COIN = 10;
+  private static readonly BUBBLE_MODE_MULTIPLIERS = {
+    bubble_pop: 1.0,
+    bubble_plus: 1.25,
+  };
+
   /**
    * Calculate total rewards for a game
    */
@@ -50,7 +66,9 @@ export class GameRewards {
     accuracy: number,
     averageTime: number,
     difficulty: 'easy' | 'medium' | 'hard',
-    streak: number = 0
+    streak: number = 0,
+    hintsUsed: number = 0,
+    roundSeconds: number = this.STANDARD_ROUND_SECONDS
   ): RewardCalculation {
     const breakdown: string[] = [];
     let totalCoins = 0;
@@ -98,8 +116,8 @@ export class GameRewards {
       breakdown.push(`${speedBonus.name}: +${speedBonus.bonus} coins`);
     }
 
-    // Perfect game bonus
-    if (accuracy === 100 && score === totalQuestions) {
+    // Perfect game bonus, only when no hints were needed
+    if (accuracy === 100 && score === totalQuestions && hintsUsed === 0) {
       const perfectBonus = Math.round(baseCoins * 0.5);
       bonuses.perfect = perfectBonus;
       totalCoins += perfectBonus;
@@ -117,8 +135,30 @@ export class GameRewards {
       breakdown.push(`${streak} game streak: +${streakBonus} coins`);
     }
 
+    // Hint penalty
+    if (hintsUsed > 0) {
+      const hintPenalty = Math.min(
+        hintsUsed * this.HINT_PENALTY_COINS,
+        Math.floor(totalCoins * this.MAX_HINT_PENALTY)
+      );
+      if (hintPenalty > 0) {
+        totalCoins -= hintPenalty;
+        breakdown.push(`${hintsUsed} hint${hintsUsed === 1 ? '' : 's'} used: -${hintPenalty} coins`);
+      }
+    }
+
+    // Round length
+    const lengthMultiplier = this.getLengthMultiplier(roundSeconds);
+    if (lengthMultiplier < 1) {
+      totalCoins = Math.round(totalCoins * lengthMultiplier);
+      totalExperience = Math.round(totalExperience * lengthMultiplier);
+      breakdown.push(`${Math.round(roundSeconds)}s round: ×${lengthMultiplier.toFixed(2)}`);
+    }
+
     // Participation bonus (minimum reward)
-    const minimumReward = 10;
+    const minimumReward = Math.round(
+      this.MINIMUM_REWARD * Math.min(1, roundSeconds / this.STANDARD_ROUND_SECONDS)
+    );
     if (totalCoins < minimumReward) {
       const participationBonus = minimumReward - totalCoins;
       totalCoins = minimumReward;
@@ -133,6 +173,15 @@ export class GameRewards {
     };
   }
 
+  /**
+   * Reward multiplier for a round's length: 1 up to the standard round, then falling with the
+   * square root of the length (a 120s round pays about 1.4× a 60s one, a 300s round about 2.2×)
+   */
+  static getLengthMultiplier(roundSeconds: number): number {
+    if (roundSeconds <= this.STANDARD_ROUND_SECONDS) return 1;
+    return Math.sqrt(this.STANDARD_ROUND_SECONDS / roundSeconds);
+  }
+
   /**
    * Get accuracy bonus
    */
@@ -164,17 +213,24 @@ export class GameRewards {
   }
 
   /**
-   * Create a game result with calculated rewards
+   * Create a game result with calculated rewards. When per-question answer times are given,
+   * averageTime is their mean; otherwise it falls back to game time over questions.
+   * roundSeconds is the length of the round the rewards are normalised for.
    */
   static createGameResult(
     score: number,
     totalQuestions: number,
     gameTimeSeconds: number,
     difficulty: 'easy' | 'medium' | 'hard',
-    streak: number = 0
+    streak: number = 0,
+    hintsUsed: number = 0,
+    answerTimes?: number[],
+    roundSeconds: number = this.STANDARD_ROUND_SECONDS
   ): GameResult {
     const accuracy = totalQuestions > 0 ? Math.round((score / totalQuestions) * 100) : 0;
-    const averageTime = totalQuestions > 0 ? gameTimeSeconds / totalQuestions : 0;
+    const averageTime = answerTimes && answerTimes.length > 0
+      ? answerTimes.reduce((sum, time) => sum + time, 0) / answerTimes.length
+      : totalQuestions > 0 ? gameTimeSeconds / totalQuestions : 0;
 
     const rewards = this.calculateRewards(
       score,
@@ -182,7 +238,9 @@ export class GameRewards {
       accuracy,
       averageTime,
       difficulty,
-      streak
+      streak,
+      hintsUsed,
+      roundSeconds
     );
 
     return {
@@ -194,6 +252,51 @@ export class GameRewards {
       coinsEarned: rewards.coins,
       experienceGained: rewards.experience,
       playedAt: new Date(),
+      hintsUsed,
+    };
+  }
+
+  /**
+   * Create a game result for Bubble Pop or Bubble Plus. The bubbles set the pace, so there is
+   * no speed bonus; bubble points (+10 per pop, -5 per miss) add coins instead.
+   */
+  static createBubbleGameResult(
+    mode: Extract<GameResultMode, 'bubble_pop' | 'bubble_plus'>,
+    points: number,
+    correctAnswers: number,
+    totalQuestions: number,
+    gameTimeSeconds: number,
+    difficulty: 'easy' | 'medium' | 'hard',
+    roundSeconds: number = this.STANDARD_ROUND_SECONDS
+  ): GameResult {
+    const accuracy = totalQuestions > 0 ? Math.round((correctAnswers / totalQuestions) * 100) : 0;
+    const averageTime = totalQuestions > 0 ? gameTimeSeconds / totalQuestions : 0;
+
+    const rewards = this.calculateRewards(
+      correctAnswers,
+      totalQuestions,
+      accuracy,
+      Number.POSITIVE_INFINITY, // No speed bonus
+      difficulty,
+      0,
+      0,
+      roundSeconds
+    );
+    const pointsBonus = Math.round(
+      Math.max(0, Math.floor(points / this.BUBBLE_POINTS_PER_COIN)) * this.getLengthMultiplier(roundSeconds)
+    );
+    const multiplier = this.BUBBLE_MODE_MULTIPLIERS[mode];
+
+    return {
+      score: correctAnswers,
+      totalQuestions,
+      accuracy,
+      averageTime,
+      difficulty,
+      coinsEarned: Math.round((rewards.coins + pointsBonus) * multiplier),
+      experienceGained: Math.round((rewards.experience + pointsBonus) * multiplier),
+      playedAt: new Date(),
+      mode,
     };
   }
 
@@ -0,0 +1,244 @@
+import { Equation, ExpressionNode } from '../types/Equation';
+import { EquationGenerator } from './EquationGenerator';
+import { ExpressionGenerator } from './ExpressionGenerator';
+
+export class HintGenerator {
+  private static readonly MAX_HINTS = 3;
+  private static readonly SKIP_COUNT_TERMS = 3; // Numbers shown when skip counting
+
+  /**
+   * Hints for a question, gentlest first. They are built from the question's structure
+   * (number bonds, splitting a factor, skip counting) and never state the answer itself.
+   */
+  static getHints(equation: Equation): string[] {
+    let hints: string[];
+    if (equation.expression) {
+      hints = this.expressionHints(equation.expression);
+    } else if (equation.shape === 'linear') {
+      hints = this.linearHints(equation);
+    } else if (equation.shape === 'missing-operand') {
+      hints = this.missingOperandHints(equation);
+    } else if (equation.answerFormat === 'fraction') {
+      hints = this.fractionHints(equation);
+    } else if (equation.answerFormat === 'decimal') {
+      hints = this.decimalHints(equation);
+    } else {
+      hints = this.factHints(equation.num1, equation.operation, equation.num2);
+    }
+
+    // Word problems first need turning back into a sum
+    if (equation.prose) {
+      hints = [`Write it as a sum: ${equation.question.replace(' = ?', '')}`, ...hints];
+    }
+    return hints.slice(0, this.MAX_HINTS);
+  }
+
+  private static factHints(num1: number, operation: Equation['operation'], num2: number): string[] {
+    if (num1 < 0 || num2 < 0) return this.signedHints(num1, operation, num2);
+
+    switch (operation) {
+      case '+':
+        return this.additionHints(num1, num2);
+      case '-':
+        return this.subtractionHints(num1, num2);
+      case '×':
+        return this.multiplicationHints(num1, num2);
+      case '÷':
+        return this.divisionHints(num1, num2);
+    }
+  }
+
+  // Number bonds to 10 for single digits, otherwise split into tens and ones
+  private static additionHints(num1: number, num2: number): string[] {
+    const big = Math.max(num1, num2);
+    const small = Math.min(num1, num2);
+
+    if (big < 10 && big + small > 10) {
+      const toTen = 10 - big;
+      return [
+        `Make 10 first: ${big} + ${toTen} = 10`,
+        `${small} = ${toTen} + ${small - toTen}, so add the ${small - toTen} left over to 10`,
+      ];
+    }
+    if (small >= 10) {
+      const tens = small - (small % 10);
+      return [
+        `Split ${small} into ${tens} + ${small % 10}`,
+        `${big} + ${tens} = ${big + tens}, then add ${small % 10}`,
+      ];
+    }
+    return [`Start at ${big} and count on ${small}`];
+  }
+
+  // Bridge through 10, or take away the tens then the ones
+  private static subtractionHints(num1: number, num2: number): string[] {
+    const aboveTen = num1 - 10;
+    if (num1 > 10 && num1 < 20 && num2 < 10 && num2 > aboveTen && aboveTen > 0) {
+      return [
+        `Take away ${aboveTen} to get to 10: ${num1} - ${aboveTen} = 10`,
+        `Then take away the other ${num2 - aboveTen} from 10`,
+      ];
+    }
+    if (num2 >= 10) {
+      const tens = num2 - (num2 % 10);
+      return [
+        `Take away the tens first: ${num1} - ${tens} = ${num1 - tens}`,
+        `Then take away ${num2 % 10}`,
+      ];
+    }
+    return [
+      `Count back ${num2} from ${num1}`,
+      `Or count up from ${num2} to ${num1}`,
+    ];
+  }
+
+  // Split one factor into easier parts, then skip count
+  private static multiplicationHints(num1: number, num2: number): string[] {
+    if (num1 === 0 || num2 === 0) return ['Anything times 0 is 0'];
+    if (num1 === 1 || num2 === 1) return ['Anything times 1 stays the same'];
+
+    // Split the factor that gives the friendliest decomposition
+    const split = [num2, num1].find(factor => factor > 2 && factor % 2 === 0 && factor <= 12)
+      ?? [num2, num1].find(factor => factor === 9 || factor === 5 || factor > 10)
+      ?? num2;
+    const other = split === num2 ? num1 : num2;
+    const hints: string[] = [];
+
+    if (split > 10) {
+      hints.push(`${other} × ${split} = ${other} × 10 + ${other} × ${split - 10}`);
+    } else if (split % 2 === 0 && split > 2) {
+      hints.push(`${other} × ${split} = ${other} × ${split / 2} × 2: work out ${other} × ${split / 2}, then double it`);
+    } else if (split === 9) {
+      hints.push(`${other} × 9 = ${other} × 10 - ${other}`);
+    } else if (split === 5) {
+      hints.push(`${other} × 5 is half of ${other} × 10`);
+    } else if (split > 5) {
+      hints.push(`${other} × ${split} = ${other} × 5 + ${other} × ${split - 5}`);
+    } else if (split === 3) {
+      hints.push(`${other} × 3 = ${other} × 2 + ${other}`);
+    }
+
+    const times = Math.min(num1, num2);
+    hints.push(this.skipCount(Math.max(num1, num2), times, `${times} times`));
+    return hints;
+  }
+
+  // Turn it into a missing factor, then skip count in the divisor
+  private static divisionHints(num1: number, num2: number): string[] {
+    if (num1 === 0) return ['0 shared between any number of groups is 0'];
+    if (num2 === 1) return ['Dividing by 1 leaves the number the same'];
+    return [
+      `Think: ? × ${num2} = ${num1}`,
+      this.skipCount(num2, num1 / num2, `until you reach ${num1}`),
+    ];
+  }
+
+  // Sign rules first, then the same hints as the positive version
+  private static signedHints(num1: number, operation: Equation['operation'], num2: number): string[] {
+    let rule: string;
+    if (operation === '-' && num2 < 0) {
+      rule = `Taking away a negative is the same as adding: ${num1} - (${num2}) = ${num1} + ${-num2}`;
+    } else if (operation === '+' && num2 < 0) {
+      rule = `Adding a negative is the same as taking away: ${num1} + (${num2}) = ${num1} - ${-num2}`;
+    } else if (operation === '×' || operation === '÷') {
+      rule = 'One negative makes the answer negative; two negatives make it positive';
+    } else {
+      rule = 'Start below zero and move along the number line';
+    }
+
+    const magnitudeHints = operation === '×' || operation === '÷'
+      ? this.factHints(Math.abs(num1), operation, Math.abs(num2))
+      : [];
+    return [rule, ...magnitudeHints];
+  }
+
+  // "? × 6 = 42" becomes "? = 42 ÷ 6", then hints for that fact
+  private static missingOperandHints(equation: Equation): string[] {
+    const { num1, num2, operation } = equation;
+    const result = EquationGenerator.evaluate(num1, operation, num2);
+    const hiddenLeft = equation.question.startsWith('?');
+    const known = hiddenLeft ? num2 : num1;
+
+    let inverse: Equation;
+    if (operation === '+') {
+      inverse = EquationGenerator.create(result, '-', known);
+    } else if (operation === '×') {
+      inverse = EquationGenerator.create(result, '÷', known);
+    } else if (operation === '-') {
+      inverse = hiddenLeft ? EquationGenerator.create(result, '+', known) : EquationGenerator.create(num1, '-', result);
+    } else {
+      inverse = hiddenLeft ? EquationGenerator.create(result, '×', known) : EquationGenerator.create(num1, '÷', result);
+    }
+
+    // Skip any hint that just restates the question
+    return [
+      `Rearrange it: ? = ${inverse.question.replace(' = ?', '')}`,
+      ...this.factHints(inverse.num1, inverse.operation, inverse.num2).filter(hint => !hint.includes(equation.question)),
+    ];
+  }
+
+  // "3x + 4 = 19": undo the constant, then the coefficient
+  private static linearHints(equation: Equation): string[] {
+    const coefficient = equation.num1;
+    const constant = equation.num2;
+    const undo = equation.operation === '+' ? `Take ${constant} from` : `Add ${constant} to`;
+    const term = coefficient === 1 ? 'x' : `${coefficient}x`;
+    const hints = [`${undo} both sides to get ${term} on its own`];
+    if (coefficient !== 1) {
+      hints.push(`Then divide both sides by ${coefficient}`);
+    }
+    return hints;
+  }
+
+  // Brackets first, then × and ÷, then + and -
+  private static expressionHints(expression: ExpressionNode): string[] {
+    const hints = ['Brackets first, then × and ÷, then + and - from left to right'];
+    const first = this.firstStep(expression);
+    if (first) {
+      hints.push(`Start with ${ExpressionGenerator.format(first)}`);
+    }
+    return hints;
+  }
+
+  private static fractionHints(equation: Equation): string[] {
+    switch (equation.operation) {
+      case '+':
+      case '-':
+        return [
+          'Make the bottom numbers (denominators) the same first',
+          `Then ${equation.operation === '+' ? 'add' : 'subtract'} the top numbers and simplify`,
+        ];
+      case '×':
+        return ['Multiply the top numbers together, then the bottom numbers, then simplify'];
+      case '÷':
+        return ['Flip the second fraction upside down, then multiply'];
+    }
+  }
+
+  private static decimalHints(equation: Equation): string[] {
+    switch (equation.operation) {
+      case '+':
+      case '-':
+        return ['Line up the decimal points, filling gaps with zeros'];
+      case '×':
+        return ['Multiply as whole numbers, then count the decimal places in both numbers'];
+      case '÷':
+        return ['Multiply both numbers by 10 until the divisor is whole, then divide'];
+    }
+  }
+
+  // The first operation whose operands are both plain numbers, in the order it would be worked out
+  private static firstStep(node: ExpressionNode): ExpressionNode | null {
+    if (node.type === 'number') return null;
+    if (node.left.type === 'number' && node.right.type === 'number') return node;
+    return this.firstStep(node.left) ?? this.firstStep(node.right);
+  }
+
+  // Only counts partway, so the last number said is never the answer
+  private static skipCount(step: number, steps: number, howFar: string): string {
+    const shown = Math.min(this.SKIP_COUNT_TERMS, steps - 1);
+    if (shown < 1) return `Count in ${step}s ${howFar}`;
+    const terms = Array.from({ length: shown }, (_, i) => step * (i + 1));
+    return `Count in ${step}s ${howFar}: ${terms.join(', ')}, …`;
+  }
+}
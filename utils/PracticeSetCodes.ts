@@ -0,0 +1,147 @@
+import { Buffer } from 'buffer';
+import { Operation, QuestionStyle } from '../types/Equation';
+import { PracticeSet } from '../types/Player';
+
+export class PracticeSetCodes {
+  static readonly VERSION = 1;
+  static readonly LINK_PREFIX = 'mathgameapp://practice-set/';
+
+  private static readonly CODE_PATTERN = /^MP(\d+)-(.+)$/;
+  private static readonly BODY_PATTERN = /^([A-Za-z0-9_-]+)([0-9a-z]{2})$/; // Base64url payload, then a checksum
+  private static readonly OPERATION_LETTERS: Record<Operation, string> = { '+': 'a', '-': 's', '×': 'm', '÷': 'd' };
+  private static readonly STYLE_LETTERS: Record<QuestionStyle, string> = { result: 'r', missing: 'm', mixed: 'x' };
+  private static readonly MAX_OPERAND = 20;
+  private static readonly MAX_QUESTIONS = 100;
+  private static readonly MAX_TIME_LIMIT = 3600; // seconds
+  private static readonly MAX_NAME_LENGTH = 30;
+
+  /**
+   * Encode a practice set as a short code such as "MP1-bS41Yy5rLjAuci43cyAmIDhzm9": the version, then
+   * operations, operands as a bitmask, count, time limit, style and name, then a two-character checksum
+   */
+  static encode(practiceSet: PracticeSet): string {
+    const operations = practiceSet.operations.map(operation => this.OPERATION_LETTERS[operation]).join('');
+    const operandMask = practiceSet.operands.reduce((mask, operand) => mask | (1 << (operand - 1)), 0);
+    const payload = [
+      operations,
+      operandMask.toString(36),
+      practiceSet.questionCount.toString(36),
+      practiceSet.timeLimit.toString(36),
+      this.STYLE_LETTERS[practiceSet.questionStyle],
+      practiceSet.name,
+    ].join('.');
+
+    const body = Buffer.from(payload, 'utf8').toString('base64')
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=+$/, '');
+    return `MP${this.VERSION}-${body}${this.checksum(body)}`;
+  }
+
+  /**
+   * Decode a code into a new practice set (with its own id), throwing if the code is malformed
+   * or was made by a newer version of the app
+   */
+  static decode(code: string): PracticeSet {
+    const match = code.trim().match(this.CODE_PATTERN);
+    if (!match) throw new Error("That doesn't look like a practice-set code.");
+
+    const version = parseInt(match[1], 10);
+    if (version > this.VERSION) throw new Error('This practice set was made with a newer version of the app. Update to open it.');
+    if (version < 1) throw new Error('That practice-set code is not valid.');
+
+    // A mistyped or cut-off code fails the checksum rather than importing a different set
+    const body = match[2].match(this.BODY_PATTERN);
+    if (!body || this.checksum(body[1]) !== body[2]) throw new Error('That practice-set code is not valid. Check it was copied in full.');
+
+    const base64 = body[1].replace(/-/g, '+').replace(/_/g, '/');
+    const fields = Buffer.from(base64, 'base64').toString('utf8').split('.');
+    // The name may itself contain dots, so it takes everything after the fixed fields
+    if (fields.length < 6) throw new Error('That practice-set code is incomplete.');
+    const [operationText, maskText, countText, timeText, styleText] = fields;
+    const name = fields.slice(5).join('.').trim();
+
+    const operations = this.decodeLetters(operationText, this.OPERATION_LETTERS);
+    const operands = this.decodeOperands(maskText);
+    const questionCount = this.decodeNumber(countText, 1, this.MAX_QUESTIONS);
+    const timeLimit = this.decodeNumber(timeText, 0, this.MAX_TIME_LIMIT);
+    const questionStyle = this.decodeLetters(styleText, this.STYLE_LETTERS);
+
+    if (
+      !operations ||
+      operations.length === 0 ||
+      !operands ||
+      questionCount === null ||
+      timeLimit === null ||
+      !questionStyle ||
+      questionStyle.length !== 1 ||
+      !name ||
+      name.length > this.MAX_NAME_LENGTH
+    ) {
+      throw new Error('That practice-set code is not valid.');
+    }
+
+    return {
+      id: `set_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name,
+      operations,
+      operands,
+      questionCount,
+      timeLimit,
+      questionStyle: questionStyle[0],
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Deep link that opens the practice set in the app
+   */
+  static toLink(practiceSet: PracticeSet): string {
+    return `${this.LINK_PREFIX}${this.encode(practiceSet)}`;
+  }
+
+  /**
+   * Pull the code out of a practice-set deep link, or null for other links
+   */
+  static fromLink(url: string): string | null {
+    const match = url.match(/^mathgameapp:\/\/+practice-set\/([^?#]+)/);
+    return match ? decodeURIComponent(match[1]) : null;
+  }
+
+  private static checksum(text: string): string {
+    let hash = 0;
+    for (let i = 0; i < text.length; i++) {
+      hash = (hash * 31 + text.charCodeAt(i)) % 1296;
+    }
+    return hash.toString(36).padStart(2, '0');
+  }
+
+  // Map each letter back to its key; null if any letter is unknown or repeated
+  private static decodeLetters<T extends string>(text: string, letters: Record<T, string>): T[] | null {
+    const keys = Object.keys(letters) as T[];
+    const decoded: T[] = [];
+    for (const letter of text) {
+      const key = keys.find(candidate => letters[candidate] === letter);
+      if (!key || decoded.includes(key)) return null;
+      decoded.push(key);
+    }
+    return decoded;
+  }
+
+  private static decodeOperands(text: string): number[] | null {
+    const mask = this.decodeNumber(text, 1, Math.pow(2, this.MAX_OPERAND) - 1);
+    if (mask === null) return null;
+
+    const operands: number[] = [];
+    for (let operand = 1; operand <= this.MAX_OPERAND; operand++) {
+      if (mask & (1 << (operand - 1))) operands.push(operand);
+    }
+    return operands;
+  }
+
+  private static decodeNumber(text: string, min: number, max: number): number | null {
+    if (!/^[0-9a-z]+$/.test(text)) return null;
+    const value = parseInt(text, 36);
+    return value >= min && value <= max ? value : null;
+  }
+}
@@ -0,0 +1,104 @@
+import { Equation } from '../types/Equation';
+import { ReviewFact } from '../types/Player';
+import { EquationGenerator } from './EquationGenerator';
+
+export class ReviewScheduler {
+  // Leitner boxes: hours until a fact in each box is due again, indexed by box (1-5).
+  // A missed fact goes back to box 1; a correct review moves it up one box.
+  private static readonly BOX_INTERVAL_HOURS = [0, 0, 24, 72, 168, 336];
+  static readonly MAX_BOX = 5;
+  static readonly SESSION_SIZE = 20;
+
+  /**
+   * Get the key a fact is stored under, e.g. "7 × 8"
+   */
+  static getFactKey(equation: Pick<Equation, 'num1' | 'num2' | 'operation'>): string {
+    return `${equation.num1} ${equation.operation} ${equation.num2}`;
+  }
+
+  /**
+   * Record a missed fact: it goes (back) to box 1 and is due straight away
+   */
+  static recordMiss(
+    facts: { [factKey: string]: ReviewFact },
+    equation: Equation,
+    now: Date = new Date()
+  ): { [factKey: string]: ReviewFact } {
+    const key = this.getFactKey(equation);
+    const previous = facts[key];
+    return {
+      ...facts,
+      [key]: {
+        num1: equation.num1,
+        num2: equation.num2,
+        operation: equation.operation,
+        box: 1,
+        dueAt: now.toISOString(),
+        misses: (previous?.misses ?? 0) + 1,
+        lastMissedAt: now.toISOString(),
+        lastReviewedAt: previous?.lastReviewedAt,
+      },
+    };
+  }
+
+  /**
+   * Record a review answer. Correct answers move the fact up a box; a correct answer
+   * from the last box retires it. Misses reset it to box 1.
+   */
+  static recordReview(
+    facts: { [factKey: string]: ReviewFact },
+    equation: Equation,
+    correct: boolean,
+    now: Date = new Date()
+  ): { [factKey: string]: ReviewFact } {
+    const key = this.getFactKey(equation);
+    const fact = facts[key];
+    if (!fact) return facts;
+    if (!correct) return this.recordMiss(facts, equation, now);
+
+    if (fact.box >= this.MAX_BOX) {
+      const { [key]: _retired, ...remaining } = facts;
+      return remaining;
+    }
+
+    const box = fact.box + 1;
+    return {
+      ...facts,
+      [key]: {
+        ...fact,
+        box,
+        dueAt: new Date(now.getTime() + this.BOX_INTERVAL_HOURS[box] * 60 * 60 * 1000).toISOString(),
+        lastReviewedAt: now.toISOString(),
+      },
+    };
+  }
+
+  /**
+   * Count the facts that are due for review
+   */
+  static countDue(facts: { [factKey: string]: ReviewFact } | undefined, now: Date = new Date()): number {
+    if (!facts) return 0;
+    return Object.values(facts).filter(fact => new Date(fact.dueAt) <= now).length;
+  }
+
+  /**
+   * Build a review session: due facts first (longest overdue, then lowest box),
+   * topped up with the facts that come due soonest
+   */
+  static buildSession(
+    facts: { [factKey: string]: ReviewFact },
+    size: number = this.SESSION_SIZE,
+    now: Date = new Date()
+  ): Equation[] {
+    const all = Object.values(facts);
+    const byDueDate = (a: ReviewFact, b: ReviewFact) =>
+      new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime() || a.box - b.box;
+
+    const due = all.filter(fact => new Date(fact.dueAt) <= now).sort(byDueDate);
+    const upcoming = all.filter(fact => new Date(fact.dueAt) > now).sort(byDueDate);
+
+    return [...due, ...upcoming]
+      .slice(0, size)
+      .map(fact => EquationGenerator.create(fact.num1, fact.operation, fact.num2));
+  }
+}
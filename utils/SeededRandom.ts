@@ -0,0 +1,36 @@
+import { RandomSource } from '../types/Equation';
+
+export class SeededRandom {
+  /**
+   * Create a deterministic random source (mulberry32) for the given seed
+   */
+  static create(seed: number): RandomSource {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  /**
+   * Pick a fresh seed for a new game
+   */
+  static createSeed(): number {
+    return Math.floor(Math.random() * 4294967296) >>> 0;
+  }
+
+  /**
+   * Turn any string (e.g. a date for daily puzzles or a room ID) into a seed (FNV-1a)
+   */
+  static seedFromString(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
@@ -0,0 +1,38 @@
+import { SurvivalRun } from '../types/Player';
+
+export class Survival {
+  static readonly STARTING_LIVES = 3;
+  static readonly CORRECT_PER_LEVEL = 5; // Correct answers before the difficulty steps up
+
+  // Per-question countdown: 10 seconds, one second less for every 2 in a row, never under 3
+  private static readonly BASE_QUESTION_TIME = 10;
+  private static readonly MIN_QUESTION_TIME = 3;
+  private static readonly STREAK_PER_SECOND = 2;
+  private static readonly LEVELS: SurvivalRun['difficulty'][] = ['easy', 'medium', 'hard'];
+
+  /**
+   * Seconds allowed for the next question, given the current run of correct answers
+   */
+  static getQuestionTime(streak: number): number {
+    return Math.max(
+      this.MIN_QUESTION_TIME,
+      this.BASE_QUESTION_TIME - Math.floor(streak / this.STREAK_PER_SECOND)
+    );
+  }
+
+  /**
+   * Difficulty after a number of correct answers: easy, then medium, then hard for the rest of the run
+   */
+  static getDifficulty(correctAnswers: number): SurvivalRun['difficulty'] {
+    const level = Math.floor(correctAnswers / this.CORRECT_PER_LEVEL);
+    return this.LEVELS[Math.min(level, this.LEVELS.length - 1)];
+  }
+
+  /**
+   * Whether a run beats the saved best: more correct answers, or as many with a longer streak
+   */
+  static isNewBest(run: SurvivalRun, best: SurvivalRun | undefined): boolean {
+    if (!best) return true;
+    return run.score > best.score || (run.score === best.score && run.longestStreak > best.longestStreak);
+  }
+}
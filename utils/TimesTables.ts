@@ -0,0 +1,128 @@
+import { Equation, RandomSource } from '../types/Equation';
+import { TimesTableFact, TimesTableOptions } from '../types/Player';
+import { EquationGenerator } from './EquationGenerator';
+
+export type TimesTableHeatMetric = 'accuracy' | 'speed';
+
+// Walk the tables in order, a shuffled review of some tables, or a timed run through one table
+export type TimesTableSession = 'tables' | 'review' | 'challenge';
+
+export interface TimesTableFactPosition {
+  table: number;
+  multiplier: number;
+}
+
+export class TimesTables {
+  static readonly SIZE = 15; // Tables 1-15, multipliers 1-15
+  static readonly MAX_REVIEW_QUESTIONS = 45;
+
+  // Heat levels run 0 (needs work) to 3 (mastered)
+  private static readonly ACCURACY_LEVELS = [0.5, 0.8, 0.95]; // Minimum accuracy for levels 1-3
+  private static readonly SPEED_LEVELS = [10, 6, 3]; // Maximum average seconds for levels 1-3
+
+  /**
+   * Get the key a fact is stored under, e.g. "7×8"
+   */
+  static getFactKey(table: number, multiplier: number): string {
+    return `${table}×${multiplier}`;
+  }
+
+  /**
+   * Ask a fact of the table: "7 × 6", or with the options on, "6 × 7" or "42 ÷ 7".
+   * The answer is always the multiplier or the product, so results stay keyed by table and multiplier.
+   */
+  static createEquation(
+    table: number,
+    multiplier: number,
+    options: TimesTableOptions,
+    random: RandomSource = Math.random
+  ): Equation {
+    if (options.division && random() < 0.5) {
+      return EquationGenerator.create(table * multiplier, '÷', table);
+    }
+    if (options.commutative && random() < 0.5) {
+      return EquationGenerator.create(multiplier, '×', table);
+    }
+    return EquationGenerator.create(table, '×', multiplier);
+  }
+
+  /**
+   * The order to ask a table's multipliers in: 1-15, or shuffled
+   */
+  static getMultiplierOrder(shuffle: boolean, random: RandomSource = Math.random): number[] {
+    const order = Array.from({ length: this.SIZE }, (_, i) => i + 1);
+    return shuffle ? this.shuffle(order, random) : order;
+  }
+
+  /**
+   * Record one answer against its fact and return the updated fact map
+   */
+  static recordAnswer(
+    facts: { [factKey: string]: TimesTableFact },
+    table: number,
+    multiplier: number,
+    correct: boolean,
+    time: number
+  ): { [factKey: string]: TimesTableFact } {
+    const key = this.getFactKey(table, multiplier);
+    const previous = facts[key];
+    const attempts = (previous?.attempts ?? 0) + 1;
+
+    return {
+      ...facts,
+      [key]: {
+        attempts,
+        correct: (previous?.correct ?? 0) + (correct ? 1 : 0),
+        averageTime: previous
+          ? previous.averageTime + (time - previous.averageTime) / attempts
+          : time,
+        lastPracticedAt: new Date().toISOString(),
+      },
+    };
+  }
+
+  /**
+   * Heat level (0-3) for a fact, or null if it has never been practised
+   */
+  static getHeatLevel(fact: TimesTableFact | undefined, metric: TimesTableHeatMetric): number | null {
+    if (!fact || fact.attempts === 0) return null;
+    if (metric === 'accuracy') {
+      const accuracy = fact.correct / fact.attempts;
+      return this.ACCURACY_LEVELS.filter(minimum => accuracy >= minimum).length;
+    }
+    return this.SPEED_LEVELS.filter(maximum => fact.averageTime <= maximum).length;
+  }
+
+  /**
+   * Number of questions in a review of this many tables
+   */
+  static getReviewLength(tableCount: number): number {
+    return Math.min(tableCount * this.SIZE, this.MAX_REVIEW_QUESTIONS);
+  }
+
+  /**
+   * Every fact of the chosen tables in a shuffled order. Past MAX_REVIEW_QUESTIONS, each table
+   * gives an equal share of randomly picked facts, so every chosen table is still reviewed.
+   */
+  static buildReview(tables: number[], random: RandomSource = Math.random): TimesTableFactPosition[] {
+    const perTable = Math.floor(this.MAX_REVIEW_QUESTIONS / tables.length);
+    const extra = this.MAX_REVIEW_QUESTIONS % tables.length;
+    const facts: TimesTableFactPosition[] = [];
+    tables.forEach((table, index) => {
+      const multipliers = Array.from({ length: this.SIZE }, (_, i) => i + 1);
+      const share = Math.min(this.SIZE, perTable + (index < extra ? 1 : 0));
+      this.shuffle(multipliers, random).slice(0, share).forEach(multiplier => facts.push({ table, multiplier }));
+    });
+
+    return this.shuffle(facts, random);
+  }
+
+  // Fisher-Yates shuffle, in place
+  private static shuffle<T>(items: T[], random: RandomSource): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+  }
+}
@@ -0,0 +1,125 @@
+import { Equation, Operation, RandomSource } from '../types/Equation';
+
+interface Noun {
+  singular: string;
+  plural: string;
+}
+
+interface WordProblemValues {
+  a: number; // Left operand (for ÷ the dividend)
+  b: number; // Right operand (for ÷ the divisor)
+  name: string;
+  friend: string;
+  item: Noun;
+  container: Noun;
+}
+
+interface WordProblemTemplate {
+  operation: Operation;
+  build: (values: WordProblemValues) => string;
+}
+
+export class WordProblemGenerator {
+  private static readonly NAMES = ['Mia', 'Leo', 'Ava', 'Sam', 'Zara', 'Kai', 'Noor', 'Ben', 'Priya', 'Tom', 'Lena', 'Omar'];
+
+  private static readonly ITEMS: Noun[] = [
+    { singular: 'apple', plural: 'apples' },
+    { singular: 'sticker', plural: 'stickers' },
+    { singular: 'marble', plural: 'marbles' },
+    { singular: 'cookie', plural: 'cookies' },
+    { singular: 'pencil', plural: 'pencils' },
+    { singular: 'shell', plural: 'shells' },
+    { singular: 'card', plural: 'cards' },
+    { singular: 'balloon', plural: 'balloons' },
+  ];
+
+  private static readonly CONTAINERS: Noun[] = [
+    { singular: 'bag', plural: 'bags' },
+    { singular: 'box', plural: 'boxes' },
+    { singular: 'jar', plural: 'jars' },
+    { singular: 'basket', plural: 'baskets' },
+  ];
+
+  // Names are repeated rather than replaced with pronouns
+  private static readonly TEMPLATES: WordProblemTemplate[] = [
+    {
+      operation: '+',
+      build: v => `${v.name} has ${WordProblemGenerator.count(v.a, v.item)}. ${v.friend} gives ${v.name} ${v.b} more. How many ${v.item.plural} does ${v.name} have now?`,
+    },
+    {
+      operation: '+',
+      build: v => `There are ${WordProblemGenerator.count(v.a, v.item)} in one ${v.container.singular} and ${v.b} in another. How many ${v.item.plural} are there altogether?`,
+    },
+    {
+      operation: '+',
+      build: v => `${v.name} walked ${WordProblemGenerator.count(v.a, { singular: 'metre', plural: 'metres' })} in the morning and ${WordProblemGenerator.count(v.b, { singular: 'metre', plural: 'metres' })} in the afternoon. How many metres is that in total?`,
+    },
+    {
+      operation: '+',
+      build: v => `${v.name} pours ${WordProblemGenerator.count(v.a, { singular: 'litre', plural: 'litres' })} of water into a tank, then ${WordProblemGenerator.count(v.b, { singular: 'litre', plural: 'litres' })} more. How many litres are in the tank now?`,
+    },
+    {
+      operation: '-',
+      build: v => `${v.name} had ${WordProblemGenerator.count(v.a, v.item)} and gave ${v.b} to ${v.friend}. How many ${v.item.plural} does ${v.name} have left?`,
+    },
+    {
+      operation: '-',
+      build: v => `A shop had ${WordProblemGenerator.count(v.a, v.item)}. It sold ${v.b} of them. How many ${v.item.plural} are left?`,
+    },
+    {
+      operation: '-',
+      build: v => `${v.name} has ${WordProblemGenerator.count(v.a, v.item)} and ${v.friend} has ${v.b}. How many more ${v.item.plural} does ${v.name} have than ${v.friend}?`,
+    },
+    {
+      operation: '×',
+      build: v => `${v.name} has ${WordProblemGenerator.count(v.a, v.container)} with ${WordProblemGenerator.count(v.b, v.item)} in each. How many ${v.item.plural} is that in total?`,
+    },
+    {
+      operation: '×',
+      build: v => `${v.name} reads for ${WordProblemGenerator.count(v.b, { singular: 'minute', plural: 'minutes' })} every day for ${WordProblemGenerator.count(v.a, { singular: 'day', plural: 'days' })}. How many minutes is that altogether?`,
+    },
+    {
+      operation: '÷',
+      build: v => `${v.name} shares ${WordProblemGenerator.count(v.a, v.item)} equally between ${v.b} friends. How many ${v.item.plural} does each friend get?`,
+    },
+    {
+      operation: '÷',
+      build: v => `${WordProblemGenerator.capitalize(WordProblemGenerator.count(v.a, v.item))} are packed into ${v.container.plural} of ${v.b}. How many ${v.container.plural} are filled?`,
+    },
+  ];
+
+  /**
+   * Dress an equation up as a word problem. The numbers and answer are unchanged;
+   * the prose is added alongside the bare question.
+   */
+  static fromEquation(equation: Equation, random: RandomSource = Math.random): Equation {
+    const templates = this.TEMPLATES.filter(template => template.operation === equation.operation);
+    if (templates.length === 0) return equation;
+
+    const template = this.pick(templates, random);
+    const name = this.pick(this.NAMES, random);
+    const friend = this.pick(this.NAMES.filter(other => other !== name), random);
+    const prose = template.build({
+      a: equation.num1,
+      b: equation.num2,
+      name,
+      friend,
+      item: this.pick(this.ITEMS, random),
+      container: this.pick(this.CONTAINERS, random),
+    });
+
+    return { ...equation, prose };
+  }
+
+  private static count(value: number, noun: Noun): string {
+    return `${value} ${value === 1 ? noun.singular : noun.plural}`;
+  }
+
+  private static capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  }
+
+  private static pick<T>(items: T[], random: RandomSource): T {
+    return items[Math.floor(random() * items.length)];
+  }
+}
@@ -0,0 +1,78 @@
+import { AdaptiveDifficulty, AnswerSample } from '../AdaptiveDifficulty';
+import { EquationGenerator } from '../EquationGenerator';
+import { SeededRandom } from '../SeededRandom';
+
+const answers = (count: number, correct: boolean, time: number): AnswerSample[] =>
+  Array.from({ length: count }, () => ({ correct, time }));
+
+describe('AdaptiveDifficulty', () => {
+  describe('updateLevel', () => {
+    it('waits for a few answers before moving', () => {
+      expect(AdaptiveDifficulty.updateLevel(0.5, answers(2, true, 1))).toBe(0.5);
+    });
+
+    it('steps up for quick correct answers and down for slow wrong ones, by at most the step size', () => {
+      expect(AdaptiveDifficulty.updateLevel(0.5, answers(5, true, 0))).toBeCloseTo(0.56);
+      expect(AdaptiveDifficulty.updateLevel(0.5, answers(5, false, 20))).toBeCloseTo(0.44);
+    });
+
+    it('holds steady at the target accuracy and speed', () => {
+      const onTarget = [...answers(4, true, 5), ...answers(1, false, 5)];
+      expect(AdaptiveDifficulty.updateLevel(0.5, onTarget)).toBeCloseTo(0.5);
+    });
+
+    it('weighs accuracy above speed', () => {
+      expect(AdaptiveDifficulty.updateLevel(0.5, answers(5, true, 20))).toBeGreaterThan(0.5);
+      expect(AdaptiveDifficulty.updateLevel(0.5, answers(5, false, 0))).toBeLessThan(0.5);
+    });
+
+    it('only looks at the most recent answers', () => {
+      const recovered = [...answers(10, false, 20), ...answers(8, true, 0)];
+      expect(AdaptiveDifficulty.updateLevel(0.5, recovered)).toBeCloseTo(0.56);
+    });
+
+    it('stays between 0 and 1', () => {
+      expect(AdaptiveDifficulty.updateLevel(0.99, answers(8, true, 0))).toBe(1);
+      expect(AdaptiveDifficulty.updateLevel(0.01, answers(8, false, 20))).toBe(0);
+    });
+  });
+
+  it('maps levels onto the fixed difficulties', () => {
+    expect(AdaptiveDifficulty.toDifficulty(0)).toBe('easy');
+    expect(AdaptiveDifficulty.toDifficulty(AdaptiveDifficulty.STARTING_LEVEL)).toBe('easy');
+    expect(AdaptiveDifficulty.toDifficulty(0.5)).toBe('medium');
+    expect(AdaptiveDifficulty.toDifficulty(0.9)).toBe('hard');
+  });
+
+  it('unlocks × and ÷ as the level rises', () => {
+    const operationsAt = (level: number) => {
+      const random = SeededRandom.create(8);
+      return new Set(Array.from({ length: 300 }, () => AdaptiveDifficulty.generate({}, level, random).operation));
+    };
+    expect([...operationsAt(0)].sort()).toEqual(['+', '-']);
+    expect(operationsAt(0.4).has('×')).toBe(true);
+    expect(operationsAt(0.4).has('÷')).toBe(false);
+    expect(operationsAt(1).has('÷')).toBe(true);
+  });
+
+  it('keys skills by operation, number band and sign', () => {
+    expect(AdaptiveDifficulty.getSkillKey(EquationGenerator.create(7, '×', 8))).toBe('×:1-10');
+    expect(AdaptiveDifficulty.getSkillKey(EquationGenerator.create(14, '+', 3))).toBe('+:11-20');
+    expect(AdaptiveDifficulty.getSkillKey(EquationGenerator.create(96, '÷', 3))).toBe('÷:21-50');
+    expect(AdaptiveDifficulty.getSkillKey(EquationGenerator.create(3, '-', 5))).toBe('±-:1-10');
+  });
+
+  it('tracks mastery as a smoothed score that slow answers earn less of', () => {
+    const equation = EquationGenerator.create(7, '×', 8);
+    const key = AdaptiveDifficulty.getSkillKey(equation);
+    const first = AdaptiveDifficulty.recordAnswer({}, equation, true, 2);
+    expect(first[key]).toMatchObject({ attempts: 1, correct: 1, mastery: 1, averageTime: 2, practiceTime: 2 });
+
+    const second = AdaptiveDifficulty.recordAnswer(first, equation, false, 6);
+    expect(second[key]).toMatchObject({ attempts: 2, correct: 1, averageTime: 4, practiceTime: 8 });
+    expect(second[key].mastery).toBeCloseTo(0.7);
+
+    const slow = AdaptiveDifficulty.recordAnswer({}, equation, true, 30);
+    expect(slow[key].mastery).toBe(0.7);
+  });
+});
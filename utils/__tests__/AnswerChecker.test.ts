@@ -0,0 +1,51 @@
+import { AnswerChecker } from '../AnswerChecker';
+import { Fractions } from '../Fractions';
+import { Equation } from '../../types/Equation';
+
+const half: Equation = {
+  question: '1/4 + 1/4 = ?',
+  answer: 0.5,
+  num1: 0.25,
+  num2: 0.25,
+  operation: '+',
+  answerFormat: 'fraction',
+  exactAnswer: Fractions.create(1, 2),
+  answerText: '1/2',
+};
+
+const negative: Equation = { question: '2 - 5 = ?', answer: -3, num1: 2, num2: 5, operation: '-' };
+
+describe('AnswerChecker', () => {
+  it.each(['1/2', '2/4', '0.5', '.5', '0.50', '50/100'])('accepts %p for a half', input => {
+    expect(AnswerChecker.isCorrect(half, input)).toBe(true);
+  });
+
+  it.each(['1/3', '0.55', '-1/2', '5'])('rejects %p for a half', input => {
+    expect(AnswerChecker.isCorrect(half, input)).toBe(false);
+  });
+
+  it('never accepts a zero denominator', () => {
+    expect(AnswerChecker.parse('1/0')).toBeNull();
+    expect(AnswerChecker.parse('0/0')).toBeNull();
+    expect(AnswerChecker.isCorrect(half, '1/0')).toBe(false);
+  });
+
+  it('only reads a minus sign in front of the number', () => {
+    expect(AnswerChecker.isCorrect(negative, '-3')).toBe(true);
+    expect(AnswerChecker.isCorrect(negative, '−3')).toBe(true);
+    expect(AnswerChecker.parse('-1/2')).toEqual({ numerator: -1, denominator: 2 });
+    ['3-', '--3', '1/-2', '1-/2', '-'].forEach(input => expect(AnswerChecker.parse(input)).toBeNull());
+  });
+
+  it('ignores whitespace anywhere in the answer', () => {
+    expect(AnswerChecker.isCorrect(negative, ' - 3 ')).toBe(true);
+    expect(AnswerChecker.isCorrect(half, ' 2 / 4\n')).toBe(true);
+    expect(AnswerChecker.parse('   ')).toBeNull();
+  });
+
+  it('falls back to the float answer for whole-number questions', () => {
+    expect(AnswerChecker.getExactAnswer(negative)).toEqual({ numerator: -3, denominator: 1 });
+    expect(AnswerChecker.formatAnswer(negative)).toBe('-3');
+    expect(AnswerChecker.formatAnswer(half)).toBe('1/2');
+  });
+});
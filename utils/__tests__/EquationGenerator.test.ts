@@ -0,0 +1,87 @@
+import { EquationGenerator } from '../EquationGenerator';
+import { SeededRandom } from '../SeededRandom';
+import { Difficulty, Equation } from '../../types/Equation';
+
+const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+const SAMPLES = 500;
+
+describe('EquationGenerator difficulty guarantees', () => {
+  describe.each(DIFFICULTIES)('%s', (difficulty) => {
+    const profile = EquationGenerator.DIFFICULTY_PROFILES[difficulty];
+    const equations = EquationGenerator.generateSequence(1234, difficulty, SAMPLES);
+
+    it('uses every operation of its profile and no others', () => {
+      const allowed = profile.operations.map(rule => rule.operation);
+      const used = new Set(equations.map(equation => equation.operation));
+      expect([...used].sort()).toEqual([...allowed].sort());
+    });
+
+    it('keeps operands inside the profile ranges', () => {
+      equations.forEach(equation => {
+        const rule = profile.operations.find(candidate => candidate.operation === equation.operation)!;
+        // Division is built from quotient × divisor, so the quotient is the left operand of the rule
+        const left = equation.operation === '÷' ? equation.answer : equation.num1;
+        const right = equation.num2;
+        expect(left).toBeGreaterThanOrEqual(rule.left.min);
+        expect(left).toBeLessThanOrEqual(rule.left.max);
+        expect(right).toBeGreaterThanOrEqual(rule.right.min);
+        expect(right).toBeLessThanOrEqual(rule.right.max);
+      });
+    });
+
+    it('never gives a negative subtraction result', () => {
+      equations
+        .filter(equation => equation.operation === '-')
+        .forEach(equation => expect(equation.answer).toBeGreaterThanOrEqual(0));
+    });
+
+    it('only asks divisions with whole-number results', () => {
+      equations
+        .filter(equation => equation.operation === '÷')
+        .forEach(equation => {
+          expect(Number.isInteger(equation.answer)).toBe(true);
+          expect(equation.num1).toBe(equation.answer * equation.num2);
+        });
+    });
+
+    it('gives unique distractors that never equal the answer', () => {
+      const random = SeededRandom.create(99);
+      equations.forEach(equation => {
+        const distractors = EquationGenerator.generateDistractors(equation, 5, difficulty, random);
+        expect(distractors).toHaveLength(5);
+        expect(new Set(distractors).size).toBe(distractors.length);
+        expect(distractors).not.toContain(equation.answer);
+        distractors.forEach(value => {
+          expect(Number.isInteger(value)).toBe(true);
+          expect(value).toBeGreaterThanOrEqual(0);
+        });
+      });
+    });
+  });
+
+  describe('distractors for other answers', () => {
+    const equation = (answer: number): Equation => ({ question: '? = ?', answer, num1: answer, num2: 0, operation: '+' });
+
+    it('gives none for an answer that is not a whole number', () => {
+      expect(EquationGenerator.generateDistractors(equation(2.5), 5, 'easy', SeededRandom.create(3))).toEqual([]);
+    });
+
+    it('gives negative neighbours for a negative answer', () => {
+      const distractors = EquationGenerator.generateDistractors(equation(-6), 5, 'easy', SeededRandom.create(4));
+      expect(distractors).toHaveLength(5);
+      expect(new Set(distractors).size).toBe(5);
+      expect(distractors).not.toContain(-6);
+      expect(distractors.some(value => value < 0)).toBe(true);
+    });
+
+    it('still fills every slot around an answer of 0', () => {
+      const distractors = EquationGenerator.generateDistractors(equation(0), 5, 'easy', SeededRandom.create(5));
+      expect(distractors).toHaveLength(5);
+      distractors.forEach(value => expect(value).toBeGreaterThan(0));
+    });
+  });
+
+  it('repeats the same sequence for the same seed', () => {
+    expect(EquationGenerator.generateSequence(42, 'hard', 20)).toEqual(EquationGenerator.generateSequence(42, 'hard', 20));
+  });
+});
@@ -0,0 +1,45 @@
+import { Fractions } from '../Fractions';
+
+describe('Fractions', () => {
+  it('reduces to lowest terms with the sign on the numerator', () => {
+    expect(Fractions.create(2, 4)).toEqual({ numerator: 1, denominator: 2 });
+    expect(Fractions.create(3, -6)).toEqual({ numerator: -1, denominator: 2 });
+    expect(Fractions.create(-3, -6)).toEqual({ numerator: 1, denominator: 2 });
+    expect(Fractions.create(0, 5)).toEqual({ numerator: 0, denominator: 1 });
+  });
+
+  it('refuses a zero denominator', () => {
+    expect(() => Fractions.create(1, 0)).toThrow('denominator cannot be zero');
+    expect(() => Fractions.divide(Fractions.create(1, 2), Fractions.create(0, 1))).toThrow();
+  });
+
+  it('treats equivalent forms as equal', () => {
+    const half = Fractions.create(1, 2);
+    expect(Fractions.equals(half, Fractions.create(2, 4))).toBe(true);
+    expect(Fractions.equals(half, Fractions.fromNumber(0.5))).toBe(true);
+    expect(Fractions.compare(Fractions.create(1, 3), half)).toBeLessThan(0);
+    expect(Fractions.compare(Fractions.create(-1, 2), Fractions.create(-2, 3))).toBeGreaterThan(0);
+  });
+
+  it('converts finite decimals exactly', () => {
+    expect(Fractions.fromNumber(0.75)).toEqual({ numerator: 3, denominator: 4 });
+    expect(Fractions.fromNumber(-1.2)).toEqual({ numerator: -6, denominator: 5 });
+    expect(Fractions.fromNumber(7)).toEqual({ numerator: 7, denominator: 1 });
+  });
+
+  it('does arithmetic in lowest terms', () => {
+    expect(Fractions.add(Fractions.create(1, 4), Fractions.create(1, 4))).toEqual({ numerator: 1, denominator: 2 });
+    expect(Fractions.subtract(Fractions.create(1, 3), Fractions.create(1, 2))).toEqual({ numerator: -1, denominator: 6 });
+    expect(Fractions.multiply(Fractions.create(2, 3), Fractions.create(3, 4))).toEqual({ numerator: 1, denominator: 2 });
+    expect(Fractions.divide(Fractions.create(1, 2), Fractions.create(-1, 4))).toEqual({ numerator: -2, denominator: 1 });
+  });
+
+  it('formats whole numbers, fractions and decimals', () => {
+    expect(Fractions.format(Fractions.create(6, 3))).toBe('2');
+    expect(Fractions.format(Fractions.create(-3, 4))).toBe('-3/4');
+    expect(Fractions.formatDecimal(125, 2)).toBe('1.25');
+    expect(Fractions.formatDecimal(120, 2)).toBe('1.2');
+    expect(Fractions.formatDecimal(-50, 2)).toBe('-0.5');
+    expect(Fractions.formatDecimal(3, 0)).toBe('3');
+  });
+});
@@ -0,0 +1,48 @@
+import { GameResume } from '../GameResume';
+import { Survival } from '../Survival';
+import { GameSnapshot, QuestionRecord } from '../../types/Player';
+
+const record = (correct: boolean, hintsUsed = 0): QuestionRecord => ({
+  question: '2 + 3 = ?',
+  operation: '+',
+  num1: 2,
+  num2: 3,
+  givenAnswer: correct ? '5' : '4',
+  correctAnswer: '5',
+  correct,
+  time: 2,
+  hintsUsed,
+});
+
+const snapshot = (mode: GameSnapshot['mode'], questions: QuestionRecord[], questionIndex: number, score: number): GameSnapshot => ({
+  playerId: 'player',
+  mode,
+  seed: 7,
+  difficulty: 'easy',
+  track: 'whole',
+  questionIndex,
+  score,
+  elapsed: 20,
+  questions,
+  savedAt: new Date().toISOString(),
+});
+
+describe('GameResume.getProgress', () => {
+  it('moves past an answer whose feedback was showing when the game was saved', () => {
+    // Saved mid-feedback: the fourth answer is recorded and scored, but the question count hasn't moved on yet
+    const questions = [record(true), record(false, 1), record(true), record(true)];
+    const progress = GameResume.getProgress(snapshot('classic', questions, 3, 3));
+    expect(progress.questionIndex).toBe(4);
+    expect(progress.score).toBe(3);
+    expect(progress.hintsUsed).toBe(1);
+  });
+
+  it('keeps Survival lives, streaks and question count in step with the answers', () => {
+    const questions = [record(true), record(true), record(false), record(true), record(false)];
+    const progress = GameResume.getProgress(snapshot('survival', questions, 4, 3));
+    expect(progress.questionIndex).toBe(5);
+    expect(progress.livesLeft).toBe(Survival.STARTING_LIVES - 2);
+    expect(progress.streak).toBe(0);
+    expect(progress.longestStreak).toBe(2);
+  });
+});
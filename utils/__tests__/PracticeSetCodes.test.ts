@@ -0,0 +1,72 @@
+import { PracticeSetCodes } from '../PracticeSetCodes';
+import { PracticeSet } from '../../types/Player';
+
+const practiceSet: PracticeSet = {
+  id: 'set_1',
+  name: 'Tricky 7s & 8s. Part 2',
+  operations: ['×', '÷'],
+  operands: [7, 8, 12, 20],
+  questionCount: 25,
+  timeLimit: 90,
+  questionStyle: 'mixed',
+  createdAt: '2026-01-01T00:00:00.000Z',
+};
+
+// Swap one character of the code's body for another valid one, leaving the checksum as it was
+const corrupt = (code: string) => {
+  const index = code.length - 5;
+  const swapped = code[index] === 'A' ? 'B' : 'A';
+  return code.slice(0, index) + swapped + code.slice(index + 1);
+};
+
+describe('PracticeSetCodes', () => {
+  it('decodes what it encodes, as a new set', () => {
+    const code = PracticeSetCodes.encode(practiceSet);
+    expect(code).toMatch(/^MP1-/);
+
+    const decoded = PracticeSetCodes.decode(code);
+    const { id, createdAt, ...settings } = decoded;
+    const { id: originalId, createdAt: originalCreatedAt, ...originalSettings } = practiceSet;
+    expect(settings).toEqual(originalSettings);
+    expect(id).not.toBe(originalId);
+  });
+
+  it('ignores surrounding whitespace', () => {
+    expect(PracticeSetCodes.decode(`  ${PracticeSetCodes.encode(practiceSet)}\n`).name).toBe(practiceSet.name);
+  });
+
+  it('rejects a code whose checksum no longer matches', () => {
+    const code = PracticeSetCodes.encode(practiceSet);
+    expect(() => PracticeSetCodes.decode(corrupt(code))).toThrow('Check it was copied in full');
+    expect(() => PracticeSetCodes.decode(code.slice(0, -3))).toThrow('not valid');
+  });
+
+  it.each(['', 'hello', 'MP-abc12', 'MPx-abc12', 'MP1-', 'MP0-abc12', 'MP1-abc!!12'])('rejects the malformed code %p', code => {
+    expect(() => PracticeSetCodes.decode(code)).toThrow();
+  });
+
+  it('rejects a well-formed code with out-of-range settings', () => {
+    const code = PracticeSetCodes.encode({ ...practiceSet, questionCount: 500 });
+    expect(() => PracticeSetCodes.decode(code)).toThrow('not valid');
+  });
+
+  it('asks for an update for a code from a newer version', () => {
+    const code = PracticeSetCodes.encode(practiceSet).replace(/^MP1-/, `MP${PracticeSetCodes.VERSION + 1}-`);
+    expect(() => PracticeSetCodes.decode(code)).toThrow('newer version');
+  });
+
+  describe('fromLink', () => {
+    it('pulls the code out of a practice-set link', () => {
+      const code = PracticeSetCodes.encode(practiceSet);
+      expect(PracticeSetCodes.fromLink(PracticeSetCodes.toLink(practiceSet))).toBe(code);
+      expect(PracticeSetCodes.fromLink(`mathgameapp:///practice-set/${code}?source=share#top`)).toBe(code);
+      expect(PracticeSetCodes.fromLink(`mathgameapp://practice-set/${encodeURIComponent(code)}`)).toBe(code);
+    });
+
+    it('returns null for other links', () => {
+      expect(PracticeSetCodes.fromLink('mathgameapp://profile/123')).toBeNull();
+      expect(PracticeSetCodes.fromLink('https://example.com/practice-set/MP1-abc12')).toBeNull();
+      expect(PracticeSetCodes.fromLink('mathgameapp://practice-set/')).toBeNull();
+    });
+  });
+});
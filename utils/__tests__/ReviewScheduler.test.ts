@@ -0,0 +1,78 @@
+import { ReviewScheduler } from '../ReviewScheduler';
+import { EquationGenerator } from '../EquationGenerator';
+import { ReviewFact } from '../../types/Player';
+
+const HOUR = 60 * 60 * 1000;
+const now = new Date('2026-03-01T12:00:00.000Z');
+const later = (hours: number) => new Date(now.getTime() + hours * HOUR);
+const fact = EquationGenerator.create(7, '×', 8);
+const key = ReviewScheduler.getFactKey(fact);
+
+// Answer a fact correctly again and again, each time once it has come due
+const promote = (facts: { [factKey: string]: ReviewFact }, times: number) => {
+  let current = facts;
+  for (let i = 0; i < times; i++) {
+    current = ReviewScheduler.recordReview(current, fact, true, new Date(current[key].dueAt));
+  }
+  return current;
+};
+
+describe('ReviewScheduler', () => {
+  it('puts a missed fact in box 1, due straight away', () => {
+    const facts = ReviewScheduler.recordMiss({}, fact, now);
+    expect(key).toBe('7 × 8');
+    expect(facts[key]).toMatchObject({ num1: 7, num2: 8, operation: '×', box: 1, misses: 1, dueAt: now.toISOString() });
+    expect(ReviewScheduler.countDue(facts, now)).toBe(1);
+  });
+
+  it('moves a correct review up a box and spaces it further out each time', () => {
+    let facts = ReviewScheduler.recordMiss({}, fact, now);
+    [24, 72, 168, 336].forEach((hours, index) => {
+      facts = ReviewScheduler.recordReview(facts, fact, true, now);
+      expect(facts[key].box).toBe(index + 2);
+      expect(facts[key].dueAt).toBe(later(hours).toISOString());
+      expect(facts[key].lastReviewedAt).toBe(now.toISOString());
+    });
+  });
+
+  it('retires a fact answered correctly from the last box', () => {
+    const top = promote(ReviewScheduler.recordMiss({}, fact, now), ReviewScheduler.MAX_BOX - 1);
+    expect(top[key].box).toBe(ReviewScheduler.MAX_BOX);
+    expect(ReviewScheduler.recordReview(top, fact, true, now)).toEqual({});
+  });
+
+  it('sends a missed review back to box 1 and counts the miss', () => {
+    const raised = promote(ReviewScheduler.recordMiss({}, fact, now), 3);
+    const missed = ReviewScheduler.recordReview(raised, fact, false, later(500))[key];
+    expect(missed).toMatchObject({ box: 1, misses: 2, dueAt: later(500).toISOString() });
+    expect(missed.lastReviewedAt).toBe(raised[key].lastReviewedAt);
+  });
+
+  it('leaves facts alone when reviewing one it has never seen', () => {
+    const facts = ReviewScheduler.recordMiss({}, fact, now);
+    expect(ReviewScheduler.recordReview(facts, EquationGenerator.create(3, '+', 4), true, now)).toBe(facts);
+  });
+
+  it('counts only facts whose due date has passed', () => {
+    const facts = ReviewScheduler.recordReview(ReviewScheduler.recordMiss({}, fact, now), fact, true, now);
+    expect(ReviewScheduler.countDue(facts, later(23))).toBe(0);
+    expect(ReviewScheduler.countDue(facts, later(24))).toBe(1);
+    expect(ReviewScheduler.countDue(undefined, now)).toBe(0);
+  });
+
+  it('builds sessions from the most overdue facts, then the soonest due', () => {
+    const entry = (num1: number, box: number, dueInHours: number): ReviewFact => ({
+      num1, num2: 2, operation: '+', box, dueAt: later(dueInHours).toISOString(), misses: 1, lastMissedAt: now.toISOString(),
+    });
+    const facts = {
+      a: entry(1, 3, -2),
+      b: entry(2, 1, -5),
+      c: entry(3, 2, -2),
+      d: entry(4, 1, 48),
+      e: entry(5, 1, 10),
+    };
+    const session = ReviewScheduler.buildSession(facts, 4, now);
+    expect(session.map(equation => equation.num1)).toEqual([2, 3, 1, 5]);
+    expect(session[0]).toEqual(EquationGenerator.create(2, '+', 2));
+  });
+});
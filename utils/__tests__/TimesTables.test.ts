@@ -0,0 +1,21 @@
+import { TimesTables } from '../TimesTables';
+import { SeededRandom } from '../SeededRandom';
+
+describe('TimesTables.buildReview', () => {
+  it('asks every fact once when the tables fit under the cap', () => {
+    const review = TimesTables.buildReview([2, 3, 4], SeededRandom.create(1));
+    expect(review).toHaveLength(3 * TimesTables.SIZE);
+    expect(new Set(review.map(fact => TimesTables.getFactKey(fact.table, fact.multiplier))).size).toBe(review.length);
+  });
+
+  it('shares the capped review evenly across every chosen table', () => {
+    const tables = [2, 3, 4, 5, 6, 7, 8];
+    const review = TimesTables.buildReview(tables, SeededRandom.create(2));
+    expect(review).toHaveLength(TimesTables.MAX_REVIEW_QUESTIONS);
+    expect(review).toHaveLength(TimesTables.getReviewLength(tables.length));
+
+    const counts = tables.map(table => review.filter(fact => fact.table === table).length);
+    expect(Math.max(...counts) - Math.min(...counts)).toBeLessThanOrEqual(1);
+    expect(new Set(review.map(fact => TimesTables.getFactKey(fact.table, fact.multiplier))).size).toBe(review.length);
+  });
+});
@@ -0,0 +1,56 @@
+import { WordProblemGenerator } from '../WordProblemGenerator';
+import { SeededRandom } from '../SeededRandom';
+import { Equation, Operation } from '../../types/Equation';
+
+const equation = (operation: Operation, num1: number, num2: number, answer: number): Equation => ({
+  question: `${num1} ${operation} ${num2} = ?`,
+  answer,
+  num1,
+  num2,
+  operation,
+});
+
+const EQUATIONS = [
+  equation('+', 7, 5, 12),
+  equation('+', 1, 1, 2),
+  equation('-', 9, 4, 5),
+  equation('×', 3, 6, 18),
+  equation('÷', 12, 4, 3),
+];
+
+// Every sentence each equation can produce, drawn across many seeds
+const sentencesFor = (source: Equation) => {
+  const random = SeededRandom.create(5);
+  return Array.from({ length: 300 }, () => WordProblemGenerator.fromEquation(source, random).prose!);
+};
+
+describe('WordProblemGenerator.fromEquation', () => {
+  it.each(EQUATIONS)('states both numbers of $question and keeps the bare question', source => {
+    const random = SeededRandom.create(1);
+    const problem = WordProblemGenerator.fromEquation(source, random);
+    expect(problem.question).toBe(source.question);
+    expect(problem.answer).toBe(source.answer);
+    sentencesFor(source).forEach(prose => {
+      expect(prose).toMatch(new RegExp(`\\b${source.num1}\\b`));
+      expect(prose).toMatch(new RegExp(`\\b${source.num2}\\b`));
+      expect(prose.endsWith('?')).toBe(true);
+    });
+  });
+
+  it('only measures walking in distances and water in litres', () => {
+    const sentences = sentencesFor(EQUATIONS[0]);
+    const walks = sentences.filter(prose => prose.includes('walked'));
+    const pours = sentences.filter(prose => prose.includes('pours'));
+    expect(walks.length).toBeGreaterThan(0);
+    expect(pours.length).toBeGreaterThan(0);
+    walks.forEach(prose => expect(prose).not.toMatch(/litre|minute|centimetre/));
+    walks.forEach(prose => expect(prose).toContain('7 metres in the morning and 5 metres in the afternoon'));
+    pours.forEach(prose => expect(prose).toContain('7 litres of water into a tank, then 5 litres more'));
+  });
+
+  it('uses the singular for a count of one', () => {
+    sentencesFor(EQUATIONS[1]).forEach(prose => {
+      expect(prose).not.toMatch(/\b1 (apples|stickers|marbles|cookies|pencils|shells|cards|balloons|metres|litres)\b/);
+    });
+  });
+});